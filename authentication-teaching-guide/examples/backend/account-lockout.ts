@@ -0,0 +1,92 @@
+/**
+ * Progressive Account Lockout
+ *
+ * This example shows how to slow down password guessing against one
+ * account, even when the attempts come from many IP addresses:
+ * - Failed logins are counted per email address
+ * - After `maxFailures` in a row the account is locked, and every further
+ *   failure doubles the lock (1 min, 2 min, 4 min, ... up to 1 hour)
+ * - A successful login resets the count
+ * - Unlock paths: an admin (POST /users/:userId/unlock) or a password reset
+ *
+ * Emails without an account are counted too, so a lockout response
+ * never reveals whether an account exists.
+ *
+ * Counters use the same pluggable store as rate-limit.ts.
+ */
+
+import { getCounterStore } from './rate-limit';
+import { normalizeEmail } from './user-repository';
+
+export const lockoutPolicy = {
+  maxFailures: 5,
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  /** Failures older than this are forgotten */
+  failureWindowMs: 24 * 60 * 60 * 1000,
+};
+
+function failuresKey(email: string): string {
+  return `login-failures:${normalizeEmail(email)}`;
+}
+
+// A lock is a counter whose window is the lock duration
+function lockKey(email: string): string {
+  return `login-lock:${normalizeEmail(email)}`;
+}
+
+/**
+ * When the account unlocks (ms since epoch), or null if it isn't locked
+ */
+export async function getAccountLockedUntil(email: string): Promise<number | null> {
+  const lock = await getCounterStore().get(lockKey(email));
+  return lock ? lock.resetAt : null;
+}
+
+/**
+ * Count a failed login; locks the account once there are too many
+ */
+export async function recordLoginFailure(email: string): Promise<void> {
+  const store = getCounterStore();
+  const { count } = await store.increment(failuresKey(email), lockoutPolicy.failureWindowMs);
+
+  if (count >= lockoutPolicy.maxFailures) {
+    const lockMs = Math.min(
+      lockoutPolicy.baseLockoutMs * 2 ** (count - lockoutPolicy.maxFailures),
+      lockoutPolicy.maxLockoutMs
+    );
+    await store.reset(lockKey(email));
+    await store.increment(lockKey(email), lockMs);
+  }
+}
+
+/**
+ * A successful login starts the count again
+ */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await getCounterStore().reset(failuresKey(email));
+}
+
+/**
+ * Lift a lock and forget the failures
+ */
+export async function unlockAccount(email: string): Promise<void> {
+  const store = getCounterStore();
+  await store.reset(lockKey(email));
+  await store.reset(failuresKey(email));
+}
+
+/**
+ * Usage example:
+ *
+ * const lockedUntil = await getAccountLockedUntil(email);
+ * if (lockedUntil) {
+ *   return sendTooManyRequests(res, lockedUntil, 'account_locked');
+ * }
+ *
+ * if (!isValid) {
+ *   await recordLoginFailure(email);
+ *   return res.status(401).json({ error: 'Invalid credentials' });
+ * }
+ * await recordLoginSuccess(email);
+ */
@@ -0,0 +1,124 @@
+/**
+ * Express API Key Management Routes (admin only)
+ *
+ * This example shows endpoints for managing service API keys:
+ * - Create a key (the full key is in this response and nowhere else)
+ * - List keys (prefix, scopes, expiry and last use - never the secret)
+ * - Rotate a key
+ * - Revoke a key
+ */
+
+import express, { Request, Response } from 'express';
+import { authenticateToken, requireRole, requireUserSession } from './auth-middleware';
+import {
+  createApiKey,
+  getApiKeyStore,
+  revokeApiKey,
+  rotateApiKey,
+  toApiKeySummary,
+} from './api-keys';
+import { getMissingPermissions } from '../shared/rbac';
+import { validateBody } from './validate-request';
+import { createApiKeySchema, CreateApiKeyRequest } from '../shared/auth-schemas';
+
+const router = express.Router();
+
+// Every route here manages credentials - admins only, and only from
+// their own login (an API key must not be able to mint more keys)
+router.use(authenticateToken, requireUserSession, requireRole('admin'));
+
+/**
+ * POST /api/admin/api-keys
+ * Create a key: { name, scopes, expiresInDays? }
+ */
+router.post('/', validateBody(createApiKeySchema), async (req: Request, res: Response) => {
+  try {
+    // 1. Input was validated by the schema (name is trimmed)
+    const { name, scopes, expiresInDays }: CreateApiKeyRequest = req.body;
+
+    // 2. A key can't grant more than the admin creating it has
+    const missingPermissions = getMissingPermissions(req.user!.role, scopes);
+    if (missingPermissions.length > 0) {
+      return res.status(400).json({ error: 'Scopes not allowed', missingPermissions });
+    }
+
+    // 3. Create the key
+    const { key, apiKey } = await createApiKey({
+      name,
+      scopes,
+      createdBy: req.user!.id,
+      expiresAt: expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : null,
+    });
+
+    // 4. Return it - this is the only time the key is shown
+    res.set('Cache-Control', 'no-store');
+    res.status(201).json({ key, apiKey });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/api-keys
+ * List keys
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const records = await getApiKeyStore().list();
+    res.json({ apiKeys: records.map(toApiKeySummary) });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/api-keys/:id/rotate
+ * Replace a key with a new one; the old key stops working
+ */
+router.post('/:id/rotate', async (req: Request, res: Response) => {
+  try {
+    const rotated = await rotateApiKey(req.params.id, req.user!.id);
+    if (!rotated) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.set('Cache-Control', 'no-store');
+    res.status(201).json(rotated);
+  } catch (error) {
+    console.error('Rotate API key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/api-keys/:id
+ * Revoke a key
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeApiKey(req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.json({ message: 'API key revoked' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
+
+/**
+ * Usage in main app:
+ *
+ * import apiKeyRoutes from './routes/api-keys';
+ * app.use('/api/admin/api-keys', apiKeyRoutes);
+ *
+ * // Create a key for a worker
+ * // POST /api/admin/api-keys { "name": "billing-worker", "scopes": ["users:read"] }
+ * // -> 201 { "key": "ak_3f9c1a7e2b4d_...", "apiKey": { "prefix": "ak_3f9c1a7e2b4d", ... } }
+ */
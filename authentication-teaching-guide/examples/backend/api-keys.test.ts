@@ -0,0 +1,127 @@
+/**
+ * Tests: Service API Keys
+ *
+ * Keys must only be usable while they are valid, must never be stored
+ * in plain text, and must only reach what their scopes allow.
+ */
+
+import { Request, Response } from 'express';
+import {
+  createApiKey,
+  getApiKeyStore,
+  InMemoryApiKeyStore,
+  revokeApiKey,
+  rotateApiKey,
+  setApiKeyStore,
+  verifyApiKey,
+} from './api-keys';
+import { authenticateTokenOrApiKey, requirePermission } from './auth-middleware';
+
+function mockResponse() {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+const worker = { name: 'billing-worker', scopes: ['users:read'], createdBy: 'admin-1' };
+
+beforeEach(() => {
+  setApiKeyStore(new InMemoryApiKeyStore());
+});
+
+describe('createApiKey', () => {
+  test('returns a prefixed key and stores only its hash', async () => {
+    const { key, apiKey } = await createApiKey(worker);
+
+    expect(key.startsWith(`${apiKey.prefix}_`)).toBe(true);
+    expect(apiKey).not.toHaveProperty('keyHash');
+
+    const [stored] = await getApiKeyStore().list();
+    expect(JSON.stringify(stored)).not.toContain(key);
+  });
+});
+
+describe('verifyApiKey', () => {
+  test('accepts a valid key and records its use', async () => {
+    const { key } = await createApiKey(worker);
+
+    const record = await verifyApiKey(key);
+
+    expect(record?.scopes).toEqual(['users:read']);
+    expect(record?.lastUsedAt).not.toBeNull();
+  });
+
+  test('rejects a key with the right id but the wrong secret', async () => {
+    const { key } = await createApiKey(worker);
+    const forged = key.slice(0, -4) + (key.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    expect(await verifyApiKey(forged)).toBeNull();
+  });
+
+  test('rejects an expired key', async () => {
+    const { key } = await createApiKey({ ...worker, expiresAt: Date.now() - 1000 });
+
+    expect(await verifyApiKey(key)).toBeNull();
+  });
+
+  test('rejects a revoked key', async () => {
+    const { key, apiKey } = await createApiKey(worker);
+    await revokeApiKey(apiKey.id);
+
+    expect(await verifyApiKey(key)).toBeNull();
+  });
+
+  test('rotation replaces the old key', async () => {
+    const { key, apiKey } = await createApiKey(worker);
+
+    const rotated = await rotateApiKey(apiKey.id, 'admin-1');
+
+    expect(await verifyApiKey(key)).toBeNull();
+    expect(await verifyApiKey(rotated!.key)).not.toBeNull();
+    expect(rotated!.apiKey.scopes).toEqual(['users:read']);
+  });
+});
+
+describe('authenticateTokenOrApiKey', () => {
+  async function call(key: string, permission: string) {
+    const req = { headers: { 'x-api-key': key } } as unknown as Request;
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await authenticateTokenOrApiKey(req, res, () =>
+      requirePermission(permission)(req, res, next)
+    );
+    return { req, res, next };
+  }
+
+  test('allows a permission in the key scopes', async () => {
+    const { key } = await createApiKey(worker);
+
+    const { req, next } = await call(key, 'users:read');
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user?.role).toBe('service');
+  });
+
+  test('rejects a permission outside the key scopes', async () => {
+    const { key } = await createApiKey(worker);
+
+    const { res, next } = await call(key, 'users:delete');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'insufficient_scope', missingPermissions: ['users:delete'] })
+    );
+  });
+
+  test('rejects an unknown key', async () => {
+    const { res, next } = await call('ak_000000000000_nope', 'users:read');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_credentials' }));
+  });
+});
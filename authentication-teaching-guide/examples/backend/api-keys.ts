@@ -0,0 +1,234 @@
+/**
+ * Service-to-Service API Keys
+ *
+ * This example shows API keys for background workers and other services,
+ * so they don't have to log in as a user to get a JWT:
+ * - Keys look like `ak_<id>_<secret>`; the prefix identifies a key
+ *   (in logs, secret scanners) without revealing it
+ * - Only a SHA-256 hash of the key is stored; the full key is returned
+ *   once, when it is created
+ * - Each key is scoped to permissions (see shared/rbac.ts) instead of a role
+ * - Keys can expire, be rotated and be revoked
+ *
+ * Keys are random and long, so a fast hash is enough - unlike passwords,
+ * they can't be guessed from a dictionary.
+ */
+
+import crypto from 'crypto';
+import { AuthenticatedPrincipal } from '../shared/auth-core';
+import { Credential } from '../shared/credential-extraction';
+
+const API_KEY_PREFIX = 'ak_';
+
+export interface ApiKeyRecord {
+  id: string; // Public part of the key, e.g. `3f9c1a7e2b4d`
+  name: string; // What it is for, e.g. "billing-worker"
+  keyHash: string; // SHA-256 of the full key
+  scopes: string[];
+  createdBy: string; // Admin user id
+  createdAt: number; // ms since epoch
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+/**
+ * What the management API shows about a key (never the hash)
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash'> & { prefix: string };
+
+/**
+ * Storage backend for API keys
+ * Implement this for your database (Postgres, Redis, ...)
+ */
+export interface ApiKeyStore {
+  save(record: ApiKeyRecord): Promise<void>;
+  find(id: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  revoke(id: string, revokedAt: number): Promise<void>;
+  touch(id: string, usedAt: number): Promise<void>;
+}
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private records = new Map<string, ApiKeyRecord>();
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async find(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...this.records.values()].map((record) => ({ ...record }));
+  }
+
+  async revoke(id: string, revokedAt: number): Promise<void> {
+    const record = this.records.get(id);
+    if (record && record.revokedAt === null) record.revokedAt = revokedAt;
+  }
+
+  async touch(id: string, usedAt: number): Promise<void> {
+    const record = this.records.get(id);
+    if (record) record.lastUsedAt = usedAt;
+  }
+}
+
+let apiKeyStore: ApiKeyStore = new InMemoryApiKeyStore();
+
+/**
+ * Configure the store used for API keys (call once at startup)
+ */
+export function setApiKeyStore(store: ApiKeyStore): void {
+  apiKeyStore = store;
+}
+
+export function getApiKeyStore(): ApiKeyStore {
+  return apiKeyStore;
+}
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Split `ak_<id>_<secret>` into its id, or null if it isn't a key
+ */
+function parseApiKeyId(key: string): string | null {
+  const match = key.match(/^ak_([0-9a-f]{12})_[A-Za-z0-9_-]{43}$/);
+  return match ? match[1] : null;
+}
+
+export function toApiKeySummary(record: ApiKeyRecord): ApiKeySummary {
+  const { keyHash, ...summary } = record;
+  return { ...summary, prefix: `${API_KEY_PREFIX}${record.id}` };
+}
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: string[];
+  createdBy: string;
+  expiresAt?: number | null;
+}
+
+/**
+ * Create a key
+ * `key` is the only copy of the secret - show it once and forget it
+ */
+export async function createApiKey(
+  options: CreateApiKeyOptions
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const id = crypto.randomBytes(6).toString('hex');
+  const key = `${API_KEY_PREFIX}${id}_${crypto.randomBytes(32).toString('base64url')}`;
+
+  const record: ApiKeyRecord = {
+    id,
+    name: options.name,
+    keyHash: hashApiKey(key),
+    scopes: [...options.scopes],
+    createdBy: options.createdBy,
+    createdAt: Date.now(),
+    expiresAt: options.expiresAt ?? null,
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+  await apiKeyStore.save(record);
+
+  return { key, apiKey: toApiKeySummary(record) };
+}
+
+/**
+ * Replace a key with a new one (same name, scopes and expiry)
+ * The old key stops working immediately
+ */
+export async function rotateApiKey(
+  id: string,
+  rotatedBy: string
+): Promise<{ key: string; apiKey: ApiKeySummary } | null> {
+  const record = await apiKeyStore.find(id);
+  if (!record || record.revokedAt !== null) return null;
+
+  const rotated = await createApiKey({
+    name: record.name,
+    scopes: record.scopes,
+    createdBy: rotatedBy,
+    expiresAt: record.expiresAt,
+  });
+  await apiKeyStore.revoke(id, Date.now());
+
+  return rotated;
+}
+
+/**
+ * Revoke a key; resolves false if there is no such key
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const record = await apiKeyStore.find(id);
+  if (!record) return false;
+
+  await apiKeyStore.revoke(id, Date.now());
+  return true;
+}
+
+/**
+ * Look up a presented key
+ * Resolves null for unknown, revoked or expired keys
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyRecord | null> {
+  const id = parseApiKeyId(key);
+  const record = id ? await apiKeyStore.find(id) : null;
+  if (!record) return null;
+
+  // Compare hashes in constant time
+  const presented = Buffer.from(hashApiKey(key), 'hex');
+  const expected = Buffer.from(record.keyHash, 'hex');
+  if (!crypto.timingSafeEqual(presented, expected)) return null;
+
+  const now = Date.now();
+  if (record.revokedAt !== null) return null;
+  if (record.expiresAt !== null && now >= record.expiresAt) return null;
+
+  await apiKeyStore.touch(record.id, now);
+  return { ...record, lastUsedAt: now };
+}
+
+/**
+ * Credential verifier for the auth core (X-API-Key header)
+ * Services get the `service` role, which no route role check accepts,
+ * and their key's scopes as permissions
+ */
+export async function verifyApiKeyCredential(
+  credential: Extract<Credential, { kind: 'api-key' }>
+): Promise<AuthenticatedPrincipal | null> {
+  const record = await verifyApiKey(credential.key);
+  if (!record) return null;
+
+  return {
+    user: {
+      id: `${API_KEY_PREFIX}${record.id}`,
+      email: '', // Services have no email address
+      role: 'service',
+      scopes: record.scopes,
+    },
+  };
+}
+
+/**
+ * Usage example:
+ *
+ * // Admin creates a key for a worker (see api-key-routes.ts)
+ * const { key } = await createApiKey({
+ *   name: 'billing-worker',
+ *   scopes: ['users:read'],
+ *   createdBy: admin.id,
+ *   expiresAt: Date.now() + 90 * 24 * 60 * 60 * 1000,
+ * });
+ *
+ * // Worker calls the API
+ * axios.get('/api/users', { headers: { 'X-API-Key': key } });
+ */
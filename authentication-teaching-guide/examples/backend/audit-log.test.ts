@@ -0,0 +1,246 @@
+/**
+ * Tests: Authentication Audit Log
+ *
+ * Logins, failures, rejected tokens and access denials must leave a
+ * record - without secrets - that admins (and only admins) can search.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import authRoutes from './auth-routes';
+import {
+  AuditEvent,
+  InMemoryAuditSink,
+  JsonLinesAuditSink,
+  recordAuditEvent,
+  setAuditSinks,
+} from './audit-log';
+import { getUserRepository, InMemoryUserRepository, setUserRepository } from './user-repository';
+import { InMemoryCounterStore, setCounterStore } from './rate-limit';
+import { generateAccessToken } from './token-utils';
+import { hashPassword } from './password-hashing';
+
+process.env.BCRYPT_COST = '4'; // Fast hashing for tests
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+const credentials = { email: 'ada@example.com', password: 'Correct horse battery 1' };
+const admin = generateAccessToken({ id: 'admin-1', email: 'admin@example.com', role: 'admin' });
+
+let sink: InMemoryAuditSink;
+let userId: string;
+
+beforeEach(async () => {
+  setUserRepository(new InMemoryUserRepository());
+  setCounterStore(new InMemoryCounterStore());
+  sink = new InMemoryAuditSink();
+  setAuditSinks(sink);
+
+  const user = await getUserRepository().create({
+    email: credentials.email,
+    passwordHash: await hashPassword(credentials.password),
+  });
+  await getUserRepository().update(user.id, { emailVerifiedAt: Date.now() });
+  userId = user.id;
+});
+
+function eventsOfType(type: AuditEvent['type']) {
+  return sink.events.filter((event) => event.type === type);
+}
+
+describe('recorded events', () => {
+  test('a successful login, with IP and user agent', async () => {
+    await request(app).post('/api/auth/login').set('User-Agent', 'Test Browser').send(credentials);
+
+    expect(eventsOfType('login_succeeded')).toEqual([
+      expect.objectContaining({
+        userId,
+        email: credentials.email,
+        ip: expect.any(String),
+        userAgent: 'Test Browser',
+        details: { method: 'password' },
+      }),
+    ]);
+  });
+
+  test('failed logins, without the attempted password', async () => {
+    await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: 'wrong password' });
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'nobody@example.com', password: 'wrong password' });
+
+    expect(eventsOfType('login_failed')).toEqual([
+      expect.objectContaining({ userId, reason: 'invalid_credentials' }),
+      expect.objectContaining({
+        userId: null,
+        email: 'nobody@example.com',
+        reason: 'invalid_credentials',
+      }),
+    ]);
+    expect(JSON.stringify(sink.events)).not.toContain('wrong password');
+  });
+
+  test('refresh and logout', async () => {
+    const login = await request(app).post('/api/auth/login').send(credentials);
+    const refreshed = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+    await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${refreshed.body.accessToken}`)
+      .send({ refreshToken: refreshed.body.refreshToken });
+
+    expect(eventsOfType('token_refreshed')).toHaveLength(1);
+    expect(eventsOfType('logout')).toEqual([
+      expect.objectContaining({ userId, details: { sessionId: expect.any(String) } }),
+    ]);
+  });
+
+  test('rejected tokens, but not anonymous requests', async () => {
+    await request(app).get('/api/auth/me');
+    await request(app).get('/api/auth/me').set('Authorization', 'Bearer not-a-token');
+
+    expect(eventsOfType('authentication_failed')).toEqual([
+      expect.objectContaining({
+        reason: 'invalid_token',
+        details: { method: 'GET', path: '/api/auth/me' },
+      }),
+    ]);
+  });
+
+  test('role check denials', async () => {
+    const user = generateAccessToken({ id: userId, email: credentials.email, role: 'user' });
+
+    await request(app).get('/api/auth/audit').set('Authorization', `Bearer ${user}`);
+
+    expect(eventsOfType('access_denied')).toEqual([
+      expect.objectContaining({
+        userId,
+        reason: 'insufficient_scope',
+        details: { method: 'GET', path: '/api/auth/audit', roles: ['admin'] },
+      }),
+    ]);
+  });
+
+  test('a failing sink does not break the login', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    setAuditSinks({ write: async () => Promise.reject(new Error('disk full')) });
+
+    const response = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(response.status).toBe(200);
+    expect(consoleError).toHaveBeenCalledWith('Audit sink error:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+});
+
+describe('GET /api/auth/audit', () => {
+  beforeEach(async () => {
+    await request(app).post('/api/auth/login').send(credentials);
+    await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: 'wrong password' });
+    await recordAuditEvent({ type: 'login_failed', userId: 'someone-else' });
+  });
+
+  test('filters by user and event type, newest first', async () => {
+    const response = await request(app)
+      .get('/api/auth/audit')
+      .query({ userId, type: 'login_failed' })
+      .set('Authorization', `Bearer ${admin}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.events).toEqual([
+      expect.objectContaining({ type: 'login_failed', userId, reason: 'invalid_credentials' }),
+    ]);
+
+    const all = await request(app)
+      .get('/api/auth/audit')
+      .query({ userId })
+      .set('Authorization', `Bearer ${admin}`);
+    expect(all.body.events.map((event: AuditEvent) => event.type)).toEqual([
+      'login_failed',
+      'login_succeeded',
+    ]);
+  });
+
+  test('filters by time range', async () => {
+    const future = new Date(Date.now() + 60 * 1000).toISOString();
+
+    const before = await request(app)
+      .get('/api/auth/audit')
+      .query({ to: future })
+      .set('Authorization', `Bearer ${admin}`);
+    const after = await request(app)
+      .get('/api/auth/audit')
+      .query({ from: future })
+      .set('Authorization', `Bearer ${admin}`);
+
+    expect(before.body.events).toHaveLength(3);
+    expect(after.body.events).toEqual([]);
+  });
+
+  test('rejects unknown event types and bad dates', async () => {
+    const response = await request(app)
+      .get('/api/auth/audit')
+      .query({ type: 'coffee_break', from: 'yesterday' })
+      .set('Authorization', `Bearer ${admin}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('validation_failed');
+    expect(response.body.errors).toHaveLength(2);
+  });
+
+  test('is admin only', async () => {
+    const user = generateAccessToken({ id: userId, email: credentials.email, role: 'user' });
+
+    const response = await request(app)
+      .get('/api/auth/audit')
+      .set('Authorization', `Bearer ${user}`);
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('InMemoryAuditSink', () => {
+  test('keeps only the newest events', async () => {
+    const capped = new InMemoryAuditSink(2);
+    setAuditSinks(capped);
+
+    await recordAuditEvent({ type: 'login_succeeded', userId: 'user-1' });
+    await recordAuditEvent({ type: 'logout', userId: 'user-1' });
+    await recordAuditEvent({ type: 'logout', userId: 'user-2' });
+
+    expect(capped.events.map((event) => event.userId)).toEqual(['user-1', 'user-2']);
+    expect(capped.events[0].type).toBe('logout');
+  });
+});
+
+describe('JsonLinesAuditSink', () => {
+  test('appends one event per line and reads them back', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    const filePath = path.join(directory, 'audit.jsonl');
+    const fileSink = new JsonLinesAuditSink(filePath);
+    setAuditSinks(fileSink);
+
+    await recordAuditEvent({ type: 'login_succeeded', userId: 'user-1' });
+    await recordAuditEvent({ type: 'logout', userId: 'user-1' });
+    await recordAuditEvent({ type: 'logout', userId: 'user-2' });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toMatchObject({ type: 'login_succeeded', userId: 'user-1' });
+    expect(await fileSink.query({ userId: 'user-1', type: 'logout' })).toEqual([
+      expect.objectContaining({ type: 'logout', userId: 'user-1' }),
+    ]);
+
+    await fs.rm(directory, { recursive: true });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Authentication Audit Log
+ *
+ * This example shows how to keep a record of security-relevant events:
+ * logins and failed attempts, refreshes, logouts, password and MFA
+ * changes, admin actions, rejected tokens and access denials.
+ *
+ * - Routes and middleware call recordAuditEvent() with a typed event
+ * - Sinks decide where events go: the console, a JSON-lines file or
+ *   SQLite - several at once if needed (e.g. console + SQLite)
+ * - A sink that can also query backs GET /api/auth/audit
+ *
+ * Never put secrets in an event: no passwords, tokens or codes. And a
+ * broken sink must never break a login, so write errors are only logged.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Request } from 'express';
+import type { Database } from 'better-sqlite3';
+
+export const AUDIT_EVENT_TYPES = [
+  'user_registered',
+  'email_verified',
+  'login_succeeded',
+  'login_failed',
+  'mfa_challenge_issued',
+  'token_refreshed',
+  'refresh_token_reused',
+  'logout',
+  'logout_all',
+  'session_revoked',
+  'password_reset_requested',
+  'password_reset',
+  'magic_link_requested',
+  'mfa_enabled',
+  'mfa_disabled',
+  'passkey_registered',
+  'passkey_removed',
+  'tokens_revoked',
+  'account_unlocked',
+  'authentication_failed',
+  'access_denied',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  at: number; // ms since epoch
+  /** The user the event is about (null when unknown, e.g. a bad token) */
+  userId: string | null;
+  /** Who did it, when not the user themselves (e.g. the admin) */
+  actorId: string | null;
+  /** Attempted email, for failures where no user id is known */
+  email: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  /** Machine-readable why, e.g. 'invalid_credentials', 'token_expired' */
+  reason: string | null;
+  /** Anything else worth keeping (session id, missing permissions, ...) */
+  details: Record<string, unknown> | null;
+}
+
+export type NewAuditEvent = Pick<AuditEvent, 'type'> &
+  Partial<Omit<AuditEvent, 'id' | 'type' | 'at'>>;
+
+export interface AuditQuery {
+  userId?: string;
+  type?: AuditEventType;
+  from?: number; // ms since epoch, inclusive
+  to?: number; // ms since epoch, exclusive
+  limit?: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Where events go
+ * Implement this for your log pipeline (Datadog, CloudWatch, Postgres, ...)
+ */
+export interface AuditSink {
+  write(event: AuditEvent): Promise<void>;
+  /** Newest first; only sinks that can be read back implement this */
+  query?(filter: AuditQuery): Promise<AuditEvent[]>;
+}
+
+function matches(event: AuditEvent, filter: AuditQuery): boolean {
+  return (
+    (filter.userId === undefined || event.userId === filter.userId) &&
+    (filter.type === undefined || event.type === filter.type) &&
+    (filter.from === undefined || event.at >= filter.from) &&
+    (filter.to === undefined || event.at < filter.to)
+  );
+}
+
+/**
+ * Filter events kept in write order; ties in `at` keep the later write first
+ */
+function newestFirst(events: AuditEvent[], filter: AuditQuery): AuditEvent[] {
+  return events
+    .filter((event) => matches(event, filter))
+    .reverse()
+    .sort((a, b) => b.at - a.at)
+    .slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+}
+
+/**
+ * Keeps events in memory (tests, single-process development)
+ * Only the newest `maxEvents` are kept, so a long-running server can't fill its memory
+ */
+export class InMemoryAuditSink implements AuditSink {
+  readonly events: AuditEvent[] = [];
+
+  constructor(private maxEvents = 10000) {}
+
+  async write(event: AuditEvent): Promise<void> {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  async query(filter: AuditQuery): Promise<AuditEvent[]> {
+    return newestFirst(this.events, filter);
+  }
+}
+
+/**
+ * One line per event on stdout - let the platform collect it
+ */
+export class ConsoleAuditSink implements AuditSink {
+  async write(event: AuditEvent): Promise<void> {
+    console.log(JSON.stringify({ audit: event }));
+  }
+}
+
+/**
+ * Appends one JSON object per line (log shippers read this format)
+ * Queries read the whole file - fine for development, not for years of logs
+ */
+export class JsonLinesAuditSink implements AuditSink {
+  constructor(private filePath = 'logs/audit.jsonl') {}
+
+  async write(event: AuditEvent): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(event)}\n`);
+  }
+
+  async query(filter: AuditQuery): Promise<AuditEvent[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events = contents
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as AuditEvent);
+    return newestFirst(events, filter);
+  }
+}
+
+interface AuditRow {
+  id: string;
+  type: AuditEventType;
+  at: number;
+  user_id: string | null;
+  actor_id: string | null;
+  email: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  reason: string | null;
+  details: string | null;
+}
+
+function fromRow(row: AuditRow): AuditEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    at: row.at,
+    userId: row.user_id,
+    actorId: row.actor_id,
+    email: row.email,
+    ip: row.ip,
+    userAgent: row.user_agent,
+    reason: row.reason,
+    details: row.details ? JSON.parse(row.details) : null,
+  };
+}
+
+/**
+ * SQLite sink (better-sqlite3)
+ *
+ * const sink = new SqliteAuditSink(new Database('auth.db'));
+ */
+export class SqliteAuditSink implements AuditSink {
+  constructor(private db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        at INTEGER NOT NULL,
+        user_id TEXT,
+        actor_id TEXT,
+        email TEXT,
+        ip TEXT,
+        user_agent TEXT,
+        reason TEXT,
+        details TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_events_user ON audit_events (user_id, at);
+      CREATE INDEX IF NOT EXISTS idx_audit_events_type ON audit_events (type, at);
+    `);
+  }
+
+  async write(event: AuditEvent): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO audit_events
+           (id, type, at, user_id, actor_id, email, ip, user_agent, reason, details)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.id,
+        event.type,
+        event.at,
+        event.userId,
+        event.actorId,
+        event.email,
+        event.ip,
+        event.userAgent,
+        event.reason,
+        event.details ? JSON.stringify(event.details) : null
+      );
+  }
+
+  async query(filter: AuditQuery): Promise<AuditEvent[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(filter.userId);
+    }
+    if (filter.type !== undefined) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.from !== undefined) {
+      conditions.push('at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      conditions.push('at < ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_events ${where} ORDER BY at DESC, rowid DESC LIMIT ?`)
+      .all(...params, filter.limit ?? DEFAULT_QUERY_LIMIT) as AuditRow[];
+    return rows.map(fromRow);
+  }
+}
+
+let sinks: AuditSink[] = [new InMemoryAuditSink()];
+
+/**
+ * Configure where events go (call once at startup)
+ * Queries use the first sink that supports them
+ */
+export function setAuditSinks(...newSinks: AuditSink[]): void {
+  sinks = newSinks;
+}
+
+/**
+ * Record an event in every sink
+ * Never throws: a failing sink is logged, and the request carries on
+ */
+export async function recordAuditEvent(event: NewAuditEvent): Promise<void> {
+  const complete: AuditEvent = {
+    id: crypto.randomUUID(),
+    type: event.type,
+    at: Date.now(),
+    userId: event.userId ?? null,
+    actorId: event.actorId ?? null,
+    email: event.email ?? null,
+    ip: event.ip ?? null,
+    userAgent: event.userAgent ?? null,
+    reason: event.reason ?? null,
+    details: event.details ?? null,
+  };
+
+  await Promise.all(
+    sinks.map((sink) =>
+      sink.write(complete).catch((error) => {
+        console.error('Audit sink error:', error);
+      })
+    )
+  );
+}
+
+/**
+ * Record an event with the request's IP and user agent
+ */
+export function auditRequest(req: Request, event: NewAuditEvent): Promise<void> {
+  return recordAuditEvent({
+    ip: req.ip ?? null,
+    userAgent: req.headers['user-agent'] ?? null,
+    ...event,
+  });
+}
+
+/**
+ * Read events back (newest first)
+ * Returns null if no configured sink can be queried
+ */
+export async function queryAuditEvents(filter: AuditQuery): Promise<AuditEvent[] | null> {
+  const queryable = sinks.find((sink) => sink.query);
+  return queryable ? queryable.query!(filter) : null;
+}
+
+/**
+ * Usage example:
+ *
+ * // Startup: keep events in SQLite, and also print them
+ * setAuditSinks(new SqliteAuditSink(new Database('auth.db')), new ConsoleAuditSink());
+ *
+ * // In a route
+ * await auditRequest(req, { type: 'login_failed', email, reason: 'invalid_credentials' });
+ *
+ * // Who failed to log in as this user in the last hour?
+ * await queryAuditEvents({ userId, type: 'login_failed', from: Date.now() - 60 * 60 * 1000 });
+ */
@@ -0,0 +1,101 @@
+/**
+ * Auth Core for Node.js
+ *
+ * This example shows the framework-agnostic core (shared/auth-core.ts)
+ * wired to this server's token utilities:
+ * - Issues tokens with jsonwebtoken and records the refresh token
+ * - Verifies JWT or opaque access tokens and checks the revocation list
+ * - Verifies API keys (only on routes whose extractors look for them)
+ * - Maps jsonwebtoken errors to auth error codes
+ *
+ * Every Node.js adapter (Express, Next.js Pages and App Router on the
+ * Node runtime) can use this instance.
+ */
+
+import jwt from 'jsonwebtoken';
+import {
+  generateTokens,
+  RefreshSession,
+  User,
+  verifyConfiguredAccessToken,
+} from './token-utils';
+import { recordRefreshToken } from './refresh-token-store';
+import { isAccessTokenRevoked } from './revocation-list';
+import { verifyApiKeyCredential } from './api-keys';
+import { AuthenticatedPrincipal, createAuthCore } from '../shared/auth-core';
+import { Credential } from '../shared/credential-extraction';
+import { AuthError } from '../shared/auth-errors';
+
+/**
+ * Verify an access token (JWT or opaque) and reject revoked ones
+ */
+export async function verifyBearerToken(
+  credential: Extract<Credential, { kind: 'bearer' }>
+): Promise<AuthenticatedPrincipal | null> {
+  // JWT signature, or opaque token store lookup
+  const decoded = await verifyConfiguredAccessToken(credential.token);
+
+  // Reject tokens revoked by logout or an admin ban
+  if (await isAccessTokenRevoked(decoded)) {
+    throw new AuthError('token_revoked');
+  }
+
+  return {
+    user: {
+      id: decoded.sub,
+      email: decoded.email,
+      role: decoded.role,
+      tenantId: decoded.tenantId,
+      // OAuth client tokens only reach what the user consented to
+      scopes: decoded.scope?.split(' '),
+    },
+    auth: {
+      jti: decoded.jti,
+      expiresAt: decoded.exp * 1000,
+    },
+  };
+}
+
+/**
+ * Map jsonwebtoken errors to auth errors
+ */
+export function jsonWebTokenAuthError(error: unknown): AuthError | null {
+  // TokenExpiredError extends JsonWebTokenError, so it must be checked first
+  if (error instanceof jwt.TokenExpiredError) {
+    return new AuthError('token_expired');
+  }
+  if (error instanceof jwt.JsonWebTokenError) {
+    return new AuthError('invalid_token');
+  }
+  return null;
+}
+
+export const authCore = createAuthCore<User, RefreshSession>({
+  // Every refresh token is recorded, so rotation and reuse detection
+  // work no matter which adapter issued it
+  issueTokens: async (user, session) => {
+    const tokens = await generateTokens(user, session);
+    await recordRefreshToken(tokens.refreshToken);
+    return tokens;
+  },
+  verifiers: {
+    bearer: verifyBearerToken,
+    'api-key': verifyApiKeyCredential,
+  },
+  toAuthError: jsonWebTokenAuthError,
+});
+
+/**
+ * Usage example:
+ *
+ * import { authCore } from './auth-core';
+ *
+ * // On login (Express route or Next.js route handler)
+ * const { accessToken, refreshToken } = await authCore.issueTokens(user);
+ *
+ * // On refresh - same family and login time
+ * const tokens = await authCore.issueTokens(user, {
+ *   familyId: decoded.familyId,
+ *   authTime: decoded.authTime,
+ * });
+ */
@@ -3,86 +3,237 @@
  * 
  * This example shows how to create reusable authentication middleware
  * for Express.js that validates JWT tokens.
+ * 
+ * Where credentials are read from is configurable per route
+ * (see shared/credential-extraction.ts).
+ * 
+ * A thin adapter: verification and authorization live in the
+ * framework-agnostic auth core (shared/auth-core.ts).
+ * 
+ * Rejected credentials and denied access are recorded in the audit log
+ * (backend/audit-log.ts).
  */
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { authCore } from './auth-core';
+import { ResourcePolicy } from '../shared/abac';
+import {
+  apiKeyHeader,
+  bearerHeader,
+  cookie,
+  fromNodeRequest,
+} from '../shared/credential-extraction';
+import { AuthError, toAuthErrorResponse } from '../shared/auth-errors';
+import {
+  AuthCore,
+  AuthenticateRequestOptions,
+  AuthRequirement,
+  AuthUser,
+  authorize,
+} from '../shared/auth-core';
+import { auditRequest } from './audit-log';
 
-const JWT_SECRET = process.env.JWT_SECRET!;
+export type {
+  AuthenticatedPrincipal,
+  CredentialVerifier,
+  CredentialVerifiers,
+} from '../shared/auth-core';
 
 // Extend Express Request type for TypeScript
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        role: string;
+      user?: AuthUser;
+      auth?: {
+        jti: string;
+        expiresAt: number; // ms since epoch
       };
+      resource?: unknown; // set by authorizeResource
     }
   }
 }
 
+export type AuthenticatedUser = AuthUser;
+
+export interface AuthenticateOptions extends AuthenticateRequestOptions {
+  /** Auth core to use (the Node.js core by default) */
+  core?: AuthCore;
+}
+
 /**
- * Middleware to authenticate JWT tokens
- * Attaches user to request if token is valid
+ * Send a structured auth error with its WWW-Authenticate header
  */
-export function authenticateToken(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  try {
-    // 1. Get token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
+export function sendAuthError(res: Response, error: AuthError) {
+  const { status, headers, body } = toAuthErrorResponse(error);
+  return res.status(status).set(headers).json(body);
+}
+
+/**
+ * Create authentication middleware for a route
+ * Attaches user to request if the credential is valid
+ * (extraction and verification happen in the auth core)
+ */
+export function authenticate(options: AuthenticateOptions = {}) {
+  const { core = authCore, ...requestOptions } = options;
+  
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await core.authenticate(fromNodeRequest(req), requestOptions);
+      if (result.error) {
+        // No credentials at all is just an anonymous caller - not worth a record
+        if (result.error.code !== 'missing_token') {
+          await auditRequest(req, {
+            type: 'authentication_failed',
+            reason: result.error.code,
+            details: { method: req.method, path: req.baseUrl + req.path },
+          });
+        }
+        return sendAuthError(res, result.error);
+      }
+      
+      // Attach user to request
+      req.user = result.principal.user;
+      req.auth = result.principal.auth;
+      
+      next();
+    } catch (error) {
+      console.error('Authentication error:', error);
+      return res.status(500).json({ error: 'Authentication error' });
+    }
+  };
+}
+
+/**
+ * Middleware that checks the authenticated user against a requirement
+ */
+function requireAuthorization(requirement: AuthRequirement) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendAuthError(res, new AuthError('missing_token'));
     }
     
-    const token = authHeader.split(' ')[1];
-    
-    // 2. Verify token
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      sub: string;
-      email: string;
-      role: string;
-    };
-    
-    // 3. Attach user to request
-    req.user = {
-      id: decoded.sub,
-      email: decoded.email,
-      role: decoded.role,
-    };
+    const error = authorize(req.user, requirement);
+    if (error) {
+      void auditRequest(req, {
+        type: 'access_denied',
+        userId: req.user.id,
+        reason: error.code,
+        details: {
+          method: req.method,
+          path: req.baseUrl + req.path,
+          ...requirement,
+          ...(error.missingPermissions ? { missingPermissions: error.missingPermissions } : {}),
+        },
+      });
+      return sendAuthError(res, error);
+    }
     
-    // 4. Continue to next middleware/route
     next();
-  } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({ error: 'Invalid token' });
-    }
-    if (error instanceof jwt.TokenExpiredError) {
-      return res.status(401).json({ error: 'Token expired' });
-    }
-    return res.status(500).json({ error: 'Authentication error' });
+  };
+}
+
+/**
+ * Middleware to authenticate access tokens
+ * from the Authorization header or the accessToken cookie
+ */
+export const authenticateToken = authenticate();
+
+/**
+ * Middleware for routes that services call too:
+ * a user's access token, or an API key in the X-API-Key header
+ * (API keys carry scopes, so pair this with requirePermission)
+ */
+export const authenticateTokenOrApiKey = authenticate({
+  extractors: [bearerHeader(), apiKeyHeader(), cookie()],
+});
+
+/**
+ * Middleware for account management (MFA, sessions, passkeys, linked
+ * identities, API keys): only the user's own login passes - not a token
+ * issued to an OAuth client, or an API key (both carry scopes)
+ * 
+ * Without it, a client granted only profile:read could e.g. register a
+ * passkey and log in with full, unscoped tokens.
+ * Must be used after authenticateToken
+ */
+export function requireUserSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return sendAuthError(res, new AuthError('missing_token'));
+  }
+  
+  if (req.user.scopes) {
+    void auditRequest(req, {
+      type: 'access_denied',
+      userId: req.user.id,
+      reason: 'insufficient_scope',
+      details: { method: req.method, path: req.baseUrl + req.path, userSession: true },
+    });
+    return sendAuthError(res, new AuthError('insufficient_scope'));
   }
+  
+  next();
 }
 
 /**
  * Middleware to require specific roles
+ * Roles include the roles they inherit (see shared/rbac.ts),
+ * so admins pass requireRole('editor') without being listed
+ * Scoped tokens (API keys, OAuth clients) never pass a role check
  * Must be used after authenticateToken
  */
 export function requireRole(...allowedRoles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return requireAuthorization({ roles: allowedRoles });
+}
+
+/**
+ * Middleware to require permissions (all of them)
+ * Must be used after authenticateToken
+ */
+export function requirePermission(...permissions: string[]) {
+  return requireAuthorization({ permissions });
+}
+
+/**
+ * Middleware to load a resource and check a policy against it
+ * (ownership, tenant, time window - see shared/abac.ts)
+ * 
+ * A missing resource and a denied one get the SAME response
+ * (404 by default), so callers can't probe which ids exist.
+ * The loaded resource is attached as req.resource.
+ * Must be used after authenticateToken
+ */
+export function authorizeResource<R>(options: {
+  load: (req: Request) => Promise<R | null>;
+  policy: ResourcePolicy<R>;
+  deniedStatus?: 403 | 404;
+}) {
+  const deniedStatus = options.deniedStatus ?? 404;
+  
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
-      return res.status(401).json({ error: 'Not authenticated' });
+      return sendAuthError(res, new AuthError('missing_token'));
     }
     
-    if (!allowedRoles.includes(req.user.role)) {
-      return res.status(403).json({ error: 'Insufficient permissions' });
+    try {
+      const resource = await options.load(req);
+      
+      const allowed = resource !== null && options.policy({
+        user: req.user,
+        resource,
+        now: new Date(),
+      });
+      if (!allowed) {
+        return deniedStatus === 404
+          ? res.status(404).json({ error: 'Not found' })
+          : sendAuthError(res, new AuthError('insufficient_scope'));
+      }
+      
+      req.resource = resource;
+      next();
+    } catch (error) {
+      console.error('Resource authorization error:', error);
+      return res.status(500).json({ error: 'Authorization error' });
     }
-    
-    next();
   };
 }
 
@@ -103,6 +254,48 @@ export function requireRole(...allowedRoles: string[]) {
  *   }
  * );
  * 
+ * // With permission requirement (any role granting it passes)
+ * app.post('/api/posts',
+ *   authenticateToken,
+ *   requirePermission('posts:write'),
+ *   (req, res) => {
+ *     res.json({ message: 'Post created' });
+ *   }
+ * );
+ * 
+ * // Users may edit only their own profile (admins any profile)
+ * app.put('/api/profiles/:id',
+ *   authenticateToken,
+ *   authorizeResource({
+ *     load: (req) => Profile.findById(req.params.id),
+ *     policy: anyOf(isOwner((profile) => profile.userId), permits('users:write')),
+ *   }),
+ *   (req, res) => {
+ *     const profile = req.resource as Profile;
+ *     res.json({ profile });
+ *   }
+ * );
+ * 
+ * // Users and background workers (X-API-Key with the users:read scope)
+ * app.get('/api/users',
+ *   authenticateTokenOrApiKey,
+ *   requirePermission('users:read'),
+ *   listUsers
+ * );
+ * 
+ * // Socket endpoint: also accept the token via subprotocol or query
+ * app.get('/api/live',
+ *   authenticate({ extractors: webSocketExtractors }),
+ *   liveHandler
+ * );
+ * 
+ * // Account settings: the user's own login only, not OAuth client tokens
+ * app.post('/api/account/email',
+ *   authenticateToken,
+ *   requireUserSession,
+ *   changeEmail
+ * );
+ * 
  * // Apply to all routes in a router
  * const protectedRouter = express.Router();
  * protectedRouter.use(authenticateToken);
@@ -0,0 +1,831 @@
+/**
+ * Tests: Register, Verify, Login and Refresh End to End
+ *
+ * Runs the real routes against an in-memory user repository and mail
+ * outbox, so the whole flow works without a database, an SMTP server
+ * or a seeded user.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import authRoutes from './auth-routes';
+import { getUserRepository, InMemoryUserRepository, setUserRepository } from './user-repository';
+import { InMemoryOutbox, setMailTransport } from './mailer';
+import { InMemoryCounterStore, setCounterStore } from './rate-limit';
+import { generateTotp, InMemoryMfaStore, setMfaStore } from './mfa';
+import { InMemorySessionStore, listActiveSessions, setSessionStore } from './sessions';
+import { setMagicLinkStore } from './magic-link';
+import { InMemoryEmailLinkTokenStore } from './email-link-tokens';
+
+process.env.BCRYPT_COST = '4'; // Fast hashing for tests
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+const credentials = { email: 'Ada@Example.com', password: 'Correct horse battery 1' };
+
+let outbox: InMemoryOutbox;
+
+beforeEach(() => {
+  setUserRepository(new InMemoryUserRepository());
+  outbox = new InMemoryOutbox();
+  setMailTransport(outbox);
+  setCounterStore(new InMemoryCounterStore());
+  setMfaStore(new InMemoryMfaStore());
+  setSessionStore(new InMemorySessionStore());
+  setMagicLinkStore(new InMemoryEmailLinkTokenStore());
+});
+
+/**
+ * The token from the latest verification link sent to the test user
+ */
+function verificationToken(): string {
+  const link = outbox.latest('ada@example.com')!.text.match(/https?:\/\/\S+/)![0];
+  return new URL(link).searchParams.get('token')!;
+}
+
+async function registerAndVerify() {
+  await request(app).post('/api/auth/register').send(credentials);
+  await request(app).post('/api/auth/verify-email').send({ token: verificationToken() });
+  return request(app).post('/api/auth/login').send(credentials);
+}
+
+describe('POST /api/auth/register', () => {
+  test('creates a user and emails a verification link instead of tokens', async () => {
+    const response = await request(app).post('/api/auth/register').send(credentials);
+
+    expect(response.status).toBe(201);
+    expect(response.body.accessToken).toBeUndefined();
+    expect(response.body.user).toMatchObject({ email: 'ada@example.com', role: 'user' });
+    expect(outbox.latest('ada@example.com')?.subject).toBe('Verify your email address');
+
+    const stored = await getUserRepository().findByEmail('ada@example.com');
+    expect(stored?.passwordHash).toMatch(/^\$2[aby]\$04\$/);
+  });
+
+  test('rejects an email that is already registered', async () => {
+    await request(app).post('/api/auth/register').send(credentials);
+
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ ...credentials, email: 'ada@example.com' });
+
+    expect(response.status).toBe(409);
+  });
+
+  test('rejects a weak password and a malformed email with field-level errors', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'ada@example', password: 'alllowercase123' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      code: 'validation_failed',
+      message: 'Invalid request body',
+      errors: [
+        'email must be a valid email address',
+        expect.stringMatching(/^password must be at least 8 characters/),
+      ],
+    });
+    expect(await getUserRepository().findByEmail('ada@example')).toBeNull();
+  });
+});
+
+describe('request validation', () => {
+  test('rejects fields of the wrong type instead of crashing', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: ['ada@example.com'], password: { $gt: '' } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual(['email must be a string', 'password must be a string']);
+  });
+
+  test('does not apply the strength rules to logins', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'nobody@example.com', password: 'weak' });
+
+    expect(response.status).toBe(401);
+  });
+
+  test('reports a missing refresh token as a bad request', async () => {
+    const response = await request(app).post('/api/auth/refresh').send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual(['refreshToken is required']);
+  });
+});
+
+describe('POST /api/auth/verify-email', () => {
+  beforeEach(async () => {
+    await request(app).post('/api/auth/register').send(credentials);
+  });
+
+  test('blocks login until the email is verified', async () => {
+    const login = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(login.status).toBe(403);
+    expect(login.body.code).toBe('email_not_verified');
+  });
+
+  test('verifies the email once', async () => {
+    const token = verificationToken();
+
+    const first = await request(app).post('/api/auth/verify-email').send({ token });
+    const second = await request(app).post('/api/auth/verify-email').send({ token });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(400);
+    expect(second.body.reason).toBe('already_used');
+  });
+
+  test('rejects a token that is not a verification token', async () => {
+    const response = await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: 'not-a-token' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid');
+  });
+
+  test('resends for unverified accounts and answers the same for unknown emails', async () => {
+    outbox.clear();
+
+    const known = await request(app)
+      .post('/api/auth/verify-email/resend')
+      .send({ email: credentials.email });
+    const unknown = await request(app)
+      .post('/api/auth/verify-email/resend')
+      .send({ email: 'nobody@example.com' });
+
+    expect(known.status).toBe(202);
+    expect(unknown.body).toEqual(known.body);
+    expect(outbox.messages).toHaveLength(1);
+  });
+
+  test('rate limits resends per account', async () => {
+    outbox.clear();
+
+    const responses = [];
+    for (let i = 0; i < 6; i++) {
+      responses.push(
+        await request(app).post('/api/auth/verify-email/resend').send({ email: credentials.email })
+      );
+    }
+
+    expect(responses[4].status).toBe(202);
+    expect(responses[5].status).toBe(429);
+    expect(outbox.messages).toHaveLength(5);
+  });
+});
+
+describe('POST /api/auth/login', () => {
+  test('logs in with the registered password', async () => {
+    const login = await registerAndVerify();
+
+    expect(login.status).toBe(200);
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${login.body.accessToken}`);
+    expect(me.body.user.email).toBe('ada@example.com');
+  });
+
+  test('gives the same answer for a wrong password and an unknown email', async () => {
+    await registerAndVerify();
+
+    const wrongPassword = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: 'wrong password' });
+    const unknownEmail = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, email: 'nobody@example.com' });
+
+    expect(wrongPassword.status).toBe(401);
+    expect(unknownEmail.status).toBe(401);
+    expect(wrongPassword.body).toEqual(unknownEmail.body);
+  });
+});
+
+describe('POST /api/auth/refresh', () => {
+  test('rotates the refresh token', async () => {
+    const login = await registerAndVerify();
+
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+
+    expect(refresh.status).toBe(200);
+    expect(refresh.body.refreshToken).not.toBe(login.body.refreshToken);
+  });
+
+  test('rejects refresh tokens issued before the token version changed', async () => {
+    const login = await registerAndVerify();
+    await getUserRepository().update(login.body.user.id, { tokenVersion: 1 });
+
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+
+    expect(refresh.status).toBe(401);
+  });
+});
+
+describe('POST /api/auth/forgot-password', () => {
+  test('answers the same whether or not the email has an account', async () => {
+    await registerAndVerify();
+    outbox.clear();
+
+    const known = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: credentials.email });
+    const unknown = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'nobody@example.com' });
+
+    expect(known.status).toBe(202);
+    expect(unknown.status).toBe(202);
+    expect(unknown.body).toEqual(known.body);
+    expect(outbox.messages).toHaveLength(1);
+  });
+
+  test('rate limits reset emails per account', async () => {
+    await registerAndVerify();
+    outbox.clear();
+
+    const responses = [];
+    for (let i = 0; i < 6; i++) {
+      responses.push(
+        await request(app).post('/api/auth/forgot-password').send({ email: credentials.email })
+      );
+    }
+
+    expect(responses[4].status).toBe(202);
+    expect(responses[5].status).toBe(429);
+    expect(outbox.messages).toHaveLength(5);
+  });
+});
+
+describe('POST /api/auth/reset-password', () => {
+  const newPassword = 'A brand new password 2';
+
+  async function requestResetToken(): Promise<string> {
+    await request(app).post('/api/auth/forgot-password').send({ email: credentials.email });
+    const link = outbox.latest('ada@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  }
+
+  test('changes the password and logs out existing sessions', async () => {
+    const login = await registerAndVerify();
+    const token = await requestResetToken();
+
+    const reset = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: newPassword });
+    expect(reset.status).toBe(200);
+
+    const oldPassword = await request(app).post('/api/auth/login').send(credentials);
+    const newLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: newPassword });
+    const oldRefresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+    const oldAccess = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${login.body.accessToken}`);
+
+    expect(oldPassword.status).toBe(401);
+    expect(newLogin.status).toBe(200);
+    expect(oldRefresh.status).toBe(401);
+    expect(oldAccess.status).toBe(401);
+  });
+
+  test('accepts a login made in the same second as the reset', async () => {
+    await registerAndVerify();
+    const token = await requestResetToken();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+
+    await request(app).post('/api/auth/reset-password').send({ token, password: newPassword });
+    const newLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: newPassword });
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${newLogin.body.accessToken}`);
+    now.mockRestore();
+
+    expect(me.status).toBe(200);
+  });
+
+  test('accepts a reset token only once', async () => {
+    await registerAndVerify();
+    const token = await requestResetToken();
+
+    await request(app).post('/api/auth/reset-password').send({ token, password: newPassword });
+    const second = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'Yet another password 3' });
+
+    expect(second.status).toBe(400);
+  });
+
+  test('rejects an unknown token', async () => {
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: 'made-up', password: newPassword });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid');
+  });
+});
+
+describe('magic link login', () => {
+  async function requestMagicLinkToken(): Promise<string> {
+    await request(app).post('/api/auth/magic-link').send({ email: credentials.email });
+    const link = outbox.latest('ada@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  }
+
+  test('exchanges the emailed token for a working token pair', async () => {
+    await registerAndVerify();
+    const token = await requestMagicLinkToken();
+
+    const login = await request(app).post('/api/auth/magic-link/verify').send({ token });
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+
+    expect(login.status).toBe(200);
+    expect(login.body.accessToken).toEqual(expect.any(String));
+    expect(refresh.status).toBe(200);
+  });
+
+  test('answers the same whether or not the email has an account', async () => {
+    await registerAndVerify();
+    outbox.clear();
+
+    const known = await request(app)
+      .post('/api/auth/magic-link')
+      .send({ email: credentials.email });
+    const unknown = await request(app)
+      .post('/api/auth/magic-link')
+      .send({ email: 'nobody@example.com' });
+
+    expect(known.status).toBe(202);
+    expect(unknown.status).toBe(202);
+    expect(unknown.body).toEqual(known.body);
+    expect(outbox.messages).toHaveLength(1);
+  });
+
+  test('accepts a token only once, and retires older links', async () => {
+    await registerAndVerify();
+    const older = await requestMagicLinkToken();
+    const token = await requestMagicLinkToken();
+
+    await request(app).post('/api/auth/magic-link/verify').send({ token });
+    const again = await request(app).post('/api/auth/magic-link/verify').send({ token });
+    const olderLink = await request(app).post('/api/auth/magic-link/verify').send({ token: older });
+
+    expect(again.status).toBe(400);
+    expect(olderLink.status).toBe(400);
+    expect(olderLink.body.reason).toBe('invalid');
+  });
+
+  test('rejects an expired token', async () => {
+    await registerAndVerify();
+    const token = await requestMagicLinkToken();
+    const now = Date.now();
+    const later = jest.spyOn(Date, 'now').mockReturnValue(now + 16 * 60 * 1000);
+
+    const response = await request(app).post('/api/auth/magic-link/verify').send({ token });
+    later.mockRestore();
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('expired');
+  });
+
+  test('verifies the email address it was sent to', async () => {
+    await request(app).post('/api/auth/register').send(credentials);
+    const token = await requestMagicLinkToken();
+
+    const response = await request(app).post('/api/auth/magic-link/verify').send({ token });
+    const passwordLogin = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(response.status).toBe(200);
+    expect(passwordLogin.status).toBe(200);
+  });
+});
+
+describe('brute-force protection', () => {
+  const wrongPassword = { ...credentials, password: 'wrong password' };
+
+  async function failLogins(times: number) {
+    for (let i = 0; i < times; i++) {
+      await request(app).post('/api/auth/login').send(wrongPassword);
+    }
+  }
+
+  test('locks the account after repeated failures, even for the right password', async () => {
+    await registerAndVerify();
+    await failLogins(5);
+
+    const response = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('account_locked');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  test('locks unknown emails the same way', async () => {
+    const unknown = { email: 'nobody@example.com', password: 'wrong password' };
+    for (let i = 0; i < 5; i++) {
+      await request(app).post('/api/auth/login').send(unknown);
+    }
+
+    const response = await request(app).post('/api/auth/login').send(unknown);
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('account_locked');
+  });
+
+  test('a password reset unlocks the account', async () => {
+    await registerAndVerify();
+    await failLogins(5);
+
+    await request(app).post('/api/auth/forgot-password').send({ email: credentials.email });
+    const link = outbox.latest('ada@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    const token = new URL(link).searchParams.get('token')!;
+    await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'A brand new password 2' });
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, password: 'A brand new password 2' });
+
+    expect(response.status).toBe(200);
+  });
+
+  test('rate limits login attempts per IP across accounts', async () => {
+    const responses = [];
+    for (let i = 0; i < 21; i++) {
+      responses.push(
+        await request(app)
+          .post('/api/auth/login')
+          .send({ email: `user${i}@example.com`, password: 'wrong password' })
+      );
+    }
+
+    expect(responses[19].status).toBe(401);
+    expect(responses[20].status).toBe(429);
+    expect(responses[20].body.code).toBe('rate_limited');
+    expect(responses[20].headers['retry-after']).toBeDefined();
+  });
+});
+
+describe('MFA login', () => {
+  const THIRTY_SECONDS = 30 * 1000;
+
+  /**
+   * Enroll the test user; returns the TOTP secret and recovery codes
+   */
+  async function enrollMfa() {
+    const login = await registerAndVerify();
+    const auth = `Bearer ${login.body.accessToken}`;
+
+    const enroll = await request(app).post('/api/auth/mfa/enroll').set('Authorization', auth);
+    const { secret } = enroll.body;
+    const confirm = await request(app)
+      .post('/api/auth/mfa/confirm')
+      .set('Authorization', auth)
+      .send({ code: generateTotp(secret) });
+
+    return {
+      secret,
+      recoveryCodes: confirm.body.recoveryCodes as string[],
+      accessToken: login.body.accessToken as string,
+    };
+  }
+
+  test('login returns a challenge instead of tokens', async () => {
+    await enrollMfa();
+
+    const login = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(login.status).toBe(200);
+    expect(login.body.mfaRequired).toBe(true);
+    expect(login.body.mfaToken).toEqual(expect.any(String));
+    expect(login.body.accessToken).toBeUndefined();
+  });
+
+  test('a magic link also returns a challenge', async () => {
+    await enrollMfa();
+    await request(app).post('/api/auth/magic-link').send({ email: credentials.email });
+    const link = outbox.latest('ada@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    const token = new URL(link).searchParams.get('token');
+
+    const login = await request(app).post('/api/auth/magic-link/verify').send({ token });
+
+    expect(login.body.mfaRequired).toBe(true);
+    expect(login.body.accessToken).toBeUndefined();
+  });
+
+  test('exchanges the challenge and a TOTP code for tokens', async () => {
+    const { secret } = await enrollMfa();
+    const login = await request(app).post('/api/auth/login').send(credentials);
+
+    const mfa = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ mfaToken: login.body.mfaToken, code: generateTotp(secret, Date.now() + THIRTY_SECONDS) });
+
+    expect(mfa.status).toBe(200);
+    expect(mfa.body.accessToken).toEqual(expect.any(String));
+    expect(mfa.body.refreshToken).toEqual(expect.any(String));
+  });
+
+  test('accepts a recovery code once', async () => {
+    const { recoveryCodes } = await enrollMfa();
+    const login = await request(app).post('/api/auth/login').send(credentials);
+
+    const first = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ mfaToken: login.body.mfaToken, code: recoveryCodes[0] });
+    const second = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ mfaToken: login.body.mfaToken, code: recoveryCodes[0] });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(401);
+    expect(second.body.code).toBe('invalid_mfa_code');
+  });
+
+  test('rejects an access token as the challenge', async () => {
+    const { secret, accessToken } = await enrollMfa();
+
+    const mfa = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ mfaToken: accessToken, code: generateTotp(secret, Date.now() + THIRTY_SECONDS) });
+
+    expect(mfa.status).toBe(401);
+    expect(mfa.body.code).toBe('mfa_challenge_invalid');
+  });
+
+  test('wrong codes lock the account', async () => {
+    await enrollMfa();
+    const login = await request(app).post('/api/auth/login').send(credentials);
+
+    for (let i = 0; i < 5; i++) {
+      await request(app)
+        .post('/api/auth/login/mfa')
+        .send({ mfaToken: login.body.mfaToken, code: '000000' });
+    }
+    const locked = await request(app)
+      .post('/api/auth/login/mfa')
+      .send({ mfaToken: login.body.mfaToken, code: '000000' });
+
+    expect(locked.status).toBe(429);
+    expect(locked.body.code).toBe('account_locked');
+  });
+
+  test('disabling MFA needs a code and restores one-step login', async () => {
+    const { recoveryCodes, accessToken } = await enrollMfa();
+    const auth = `Bearer ${accessToken}`;
+
+    const wrong = await request(app)
+      .post('/api/auth/mfa/disable')
+      .set('Authorization', auth)
+      .send({ code: '000000' });
+    const disabled = await request(app)
+      .post('/api/auth/mfa/disable')
+      .set('Authorization', auth)
+      .send({ code: recoveryCodes[0] });
+    const relogin = await request(app).post('/api/auth/login').send(credentials);
+
+    expect(wrong.status).toBe(400);
+    expect(disabled.status).toBe(200);
+    expect(relogin.body.accessToken).toEqual(expect.any(String));
+  });
+
+  test('wrong codes to disable MFA lock the account', async () => {
+    const { secret, accessToken } = await enrollMfa();
+    const auth = `Bearer ${accessToken}`;
+
+    for (let i = 0; i < 5; i++) {
+      await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', auth)
+        .send({ code: '000000' });
+    }
+    const locked = await request(app)
+      .post('/api/auth/mfa/disable')
+      .set('Authorization', auth)
+      .send({ code: generateTotp(secret, Date.now() + THIRTY_SECONDS) });
+
+    expect(locked.status).toBe(429);
+    expect(locked.body.code).toBe('account_locked');
+  });
+});
+
+describe('sessions', () => {
+  async function loginFrom(deviceName: string) {
+    return request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', `TestAgent (${deviceName})`)
+      .send({ ...credentials, deviceName });
+  }
+
+  test('lists a session per device with its details', async () => {
+    await registerAndVerify();
+    const phone = await loginFrom('Phone');
+    await loginFrom('Laptop');
+
+    const response = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${phone.body.accessToken}`);
+
+    expect(response.status).toBe(200);
+    const named = response.body.sessions.filter((s: { deviceName: string | null }) => s.deviceName);
+    expect(named).toEqual([
+      expect.objectContaining({ deviceName: 'Phone', userAgent: 'TestAgent (Phone)', lastRefreshedAt: null }),
+      expect.objectContaining({ deviceName: 'Laptop', userAgent: 'TestAgent (Laptop)' }),
+    ]);
+    expect(named[0].ip).toEqual(expect.any(String));
+  });
+
+  test('refreshing updates the last refresh time', async () => {
+    await registerAndVerify();
+    const phone = await loginFrom('Phone');
+
+    await request(app).post('/api/auth/refresh').send({ refreshToken: phone.body.refreshToken });
+    const response = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${phone.body.accessToken}`);
+
+    const session = response.body.sessions.find((s: { deviceName: string }) => s.deviceName === 'Phone');
+    expect(session.lastRefreshedAt).toEqual(expect.any(Number));
+  });
+
+  test('revoking a session logs that device out only', async () => {
+    await registerAndVerify();
+    const phone = await loginFrom('Phone');
+    const laptop = await loginFrom('Laptop');
+    const auth = `Bearer ${laptop.body.accessToken}`;
+
+    const list = await request(app).get('/api/auth/sessions').set('Authorization', auth);
+    const phoneSession = list.body.sessions.find((s: { deviceName: string }) => s.deviceName === 'Phone');
+
+    const revoke = await request(app)
+      .delete(`/api/auth/sessions/${phoneSession.id}`)
+      .set('Authorization', auth);
+    const phoneRefresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: phone.body.refreshToken });
+    const laptopRefresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: laptop.body.refreshToken });
+    const after = await request(app).get('/api/auth/sessions').set('Authorization', auth);
+
+    expect(revoke.status).toBe(200);
+    expect(phoneRefresh.status).toBe(401);
+    expect(laptopRefresh.status).toBe(200);
+    expect(after.body.sessions.map((s: { id: string }) => s.id)).not.toContain(phoneSession.id);
+  });
+
+  test("can't revoke another user's session", async () => {
+    await registerAndVerify();
+    const ada = await loginFrom('Phone');
+    const list = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${ada.body.accessToken}`);
+
+    const other = { email: 'grace@example.com', password: 'Another long password 4' };
+    await request(app).post('/api/auth/register').send(other);
+    const link = outbox.latest('grace@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: new URL(link).searchParams.get('token') });
+    const grace = await request(app).post('/api/auth/login').send(other);
+
+    const response = await request(app)
+      .delete(`/api/auth/sessions/${list.body.sessions[0].id}`)
+      .set('Authorization', `Bearer ${grace.body.accessToken}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  test("a forged refresh token can't log out another user's session", async () => {
+    await registerAndVerify();
+    const ada = await loginFrom('Phone');
+    const list = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${ada.body.accessToken}`);
+
+    const other = { email: 'grace@example.com', password: 'Another long password 4' };
+    await request(app).post('/api/auth/register').send(other);
+    const link = outbox.latest('grace@example.com')!.text.match(/https?:\/\/\S+/)![0];
+    await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: new URL(link).searchParams.get('token') });
+    const grace = await request(app).post('/api/auth/login').send(other);
+    const forged = jwt.sign(
+      { type: 'refresh', sub: grace.body.user.id, familyId: list.body.sessions[0].id },
+      'not-our-signing-key'
+    );
+
+    const logout = await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${grace.body.accessToken}`)
+      .send({ refreshToken: forged });
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: ada.body.refreshToken });
+
+    expect(logout.status).toBe(200);
+    expect(refresh.status).toBe(200);
+  });
+
+  test('log out everywhere increments the token version and ends every session', async () => {
+    const first = await registerAndVerify();
+    const second = await loginFrom('Laptop');
+
+    const logoutAll = await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${second.body.accessToken}`);
+
+    const user = await getUserRepository().findById(first.body.user.id);
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: first.body.refreshToken });
+    const access = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${second.body.accessToken}`);
+
+    expect(logoutAll.status).toBe(200);
+    expect(user?.tokenVersion).toBe(1);
+    expect(refresh.status).toBe(401);
+    expect(access.status).toBe(401);
+    expect(await listActiveSessions(first.body.user.id)).toHaveLength(0);
+  });
+
+  test('log out everywhere accepts a login made in the same second', async () => {
+    const first = await registerAndVerify();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+
+    await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${first.body.accessToken}`);
+    const second = await loginFrom('Laptop');
+    const oldAccess = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${first.body.accessToken}`);
+    const newAccess = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${second.body.accessToken}`);
+    now.mockRestore();
+
+    expect(oldAccess.status).toBe(401);
+    expect(newAccess.status).toBe(200);
+  });
+});
+
+describe('POST /api/auth/introspect', () => {
+  const resourceServer = { id: 'orders-api', secret: 'introspection-secret' };
+
+  beforeEach(() => {
+    process.env.INTROSPECTION_CLIENT_ID = resourceServer.id;
+    process.env.INTROSPECTION_CLIENT_SECRET = resourceServer.secret;
+  });
+
+  function introspect(token: string) {
+    return request(app)
+      .post('/api/auth/introspect')
+      .auth(resourceServer.id, resourceServer.secret)
+      .type('form')
+      .send({ token });
+  }
+
+  test('reports a live access token as active', async () => {
+    const login = await registerAndVerify();
+
+    const response = await introspect(login.body.accessToken);
+
+    expect(response.body).toEqual(
+      expect.objectContaining({ active: true, sub: login.body.user.id })
+    );
+  });
+
+  test('reports an access token revoked by log out everywhere as inactive', async () => {
+    const login = await registerAndVerify();
+    await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${login.body.accessToken}`);
+
+    const response = await introspect(login.body.accessToken);
+
+    expect(response.body).toEqual({ active: false });
+  });
+});
@@ -2,146 +2,1098 @@
  * Express Authentication Routes
  * 
  * This example shows complete authentication endpoints:
- * - Login
+ * - Register
+ * - Email verification (and resending the email)
+ * - Login (two steps when MFA is on)
+ * - MFA enrollment, confirmation and disable
+ * - Forgot / reset password
+ * - Passwordless login by email link
  * - Refresh token
- * - Logout
+ * - Logout (this device, or everywhere)
+ * - List and revoke sessions (one per logged-in device)
+ * - Revoke a user's tokens (admin)
+ * - Unlock a locked account (admin)
+ * - Token introspection (RFC 7662)
+ * - Query the audit log (admin)
+ * 
+ * Every login, failure, refresh, logout and admin action is recorded
+ * in the audit log (see audit-log.ts).
  */
 
+import crypto from 'crypto';
 import express, { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import { generateTokens, verifyRefreshToken } from './token-utils';
-import { authenticateToken } from './auth-middleware';
+import {
+  AccessTokenPayload,
+  decodeToken,
+  generateMfaChallengeToken,
+  verifyAccessToken,
+  verifyMfaChallengeToken,
+  verifyOpaqueAccessToken,
+  verifyRefreshToken,
+} from './token-utils';
+import { getTokenLifetimes, tokenPolicy } from '../shared/token-policy';
+import {
+  authenticateToken,
+  requirePermission,
+  requireRole,
+  requireUserSession,
+} from './auth-middleware';
+import { authCore } from './auth-core';
+import {
+  consumeRefreshToken,
+  getRefreshTokenStore,
+  RefreshTokenReuseError,
+} from './refresh-token-store';
+import { isAccessTokenRevoked, revokeAccessToken } from './revocation-list';
+import { getOpaqueTokenStore } from './opaque-token-store';
+import {
+  EmailTakenError,
+  getUserRepository,
+  normalizeEmail,
+  UserRecord,
+} from './user-repository';
+import { hashPassword, verifyPassword } from './password-hashing';
+import {
+  EmailVerificationError,
+  sendVerificationEmail,
+  verifyEmail,
+} from './email-verification';
+import { PasswordResetError, requestPasswordReset, resetPassword } from './password-reset';
+import { MagicLinkError, requestMagicLink, verifyMagicLink } from './magic-link';
+import { rateLimit, sendTooManyRequests } from './rate-limit';
+import { validateBody, validateQuery } from './validate-request';
+import { AUDIT_EVENT_TYPES, AuditQuery, auditRequest, queryAuditEvents } from './audit-log';
+import { oneOf, optional, positiveInteger, string, timestamp } from '../shared/validation';
+import {
+  emailSchema,
+  EmailRequest,
+  loginMfaSchema,
+  LoginMfaRequest,
+  loginSchema,
+  LoginRequest,
+  logoutSchema,
+  LogoutRequest,
+  magicLinkVerifySchema,
+  MagicLinkVerifyRequest,
+  mfaCodeSchema,
+  MfaCodeRequest,
+  refreshSchema,
+  RefreshRequest,
+  registerSchema,
+  RegisterRequest,
+  resetPasswordSchema,
+  ResetPasswordRequest,
+  verifyEmailSchema,
+  VerifyEmailRequest,
+} from '../shared/auth-schemas';
+import {
+  getAccountLockedUntil,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+} from './account-lockout';
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  isMfaEnabled,
+  MfaError,
+  startMfaEnrollment,
+  verifyMfaCode,
+} from './mfa';
+import {
+  getSessionStore,
+  listActiveSessions,
+  logOutEverywhere,
+  revokeSession,
+  startSession,
+  toSessionSummary,
+} from './sessions';
 
 const router = express.Router();
 
+const MINUTE = 60 * 1000;
+
+// Brute-force protection: per IP (one attacker, many accounts) and per
+// account (many IPs, one account); failures also lock the account
+const loginLimits = [
+  rateLimit({ name: 'login-ip', limit: 20, windowMs: 15 * MINUTE }),
+  rateLimit({
+    name: 'login-account',
+    limit: 10,
+    windowMs: 15 * MINUTE,
+    key: (req) => (typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : null),
+  }),
+];
+
+// The 6-digit code is the only secret left once the password is known
+const mfaLimit = rateLimit({ name: 'login-mfa-ip', limit: 20, windowMs: 15 * MINUTE });
+
+// Every request sends an email - don't let anyone flood an inbox
+const magicLinkLimits = [
+  rateLimit({ name: 'magic-link-ip', limit: 10, windowMs: 15 * MINUTE }),
+  rateLimit({
+    name: 'magic-link-account',
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    key: (req) => (typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : null),
+  }),
+];
+
+// Verification links are emails too
+const verificationResendLimits = [
+  rateLimit({ name: 'verify-resend-ip', limit: 10, windowMs: 15 * MINUTE }),
+  rateLimit({
+    name: 'verify-resend-account',
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    key: (req) => (typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : null),
+  }),
+];
+
+// Reset links are emails too
+const passwordResetLimits = [
+  rateLimit({ name: 'password-reset-ip', limit: 10, windowMs: 15 * MINUTE }),
+  rateLimit({
+    name: 'password-reset-account',
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    key: (req) => (typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : null),
+  }),
+];
+
+// A stolen refresh token shouldn't be hammered, and clients shouldn't loop
+const refreshLimit = rateLimit({ name: 'refresh-ip', limit: 30, windowMs: MINUTE });
+
 /**
- * POST /api/auth/login
- * Login endpoint
+ * Issue a token pair and build the login response
  */
-router.post('/login', async (req: Request, res: Response) => {
+export async function tokenResponse(user: UserRecord, req: Request) {
+  // A new session for this device; its refresh tokens form one family
+  const session = await startSession(user, {
+    deviceName: req.body?.deviceName,
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+  });
+  const { accessToken, refreshToken } = await authCore.issueTokens(user, session);
+  
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: getTokenLifetimes(user.role).accessTokenTtl,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    },
+  };
+}
+
+/**
+ * POST /api/auth/register
+ * Create an account and email a verification link
+ * (no tokens until the email is verified)
+ */
+router.post('/register', validateBody(registerSchema), async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
-    
-    // 1. Validate input
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password required' });
-    }
-    
-    // 2. Find user (replace with your database query)
-    // const user = await User.findOne({ email });
-    const mockUser = {
-      id: '1',
-      email: 'user@example.com',
-      hashedPassword: '$2a$10$...', // From database
-      role: 'user',
-      tokenVersion: 0,
-    };
-    
-    // 3. Verify password
-    const isValid = await bcrypt.compare(password, mockUser.hashedPassword);
-    if (!isValid) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
+    // 1. Input was validated by the schema (valid email, strong password)
+    const { email, password }: RegisterRequest = req.body;
     
-    // 4. Generate tokens
-    const { accessToken, refreshToken } = generateTokens(mockUser);
+    // 2. Create user (hash cost from BCRYPT_COST)
+    const user = await getUserRepository().create({
+      email,
+      passwordHash: await hashPassword(password),
+    });
     
-    // 5. Optionally store refresh token in database (for rotation)
-    // await storeRefreshToken(mockUser.id, refreshToken);
+    // 3. Send the verification email
+    await sendVerificationEmail(user);
+    await auditRequest(req, { type: 'user_registered', userId: user.id, email: user.email });
     
-    // 6. Return tokens
-    res.json({
-      accessToken,
-      refreshToken,
-      expiresIn: 900, // 15 minutes in seconds
+    res.status(201).json({
+      message: 'Check your email to verify your account',
       user: {
-        id: mockUser.id,
-        email: mockUser.email,
-        role: mockUser.role,
+        id: user.id,
+        email: user.email,
+        role: user.role,
       },
     });
   } catch (error) {
-    console.error('Login error:', error);
+    if (error instanceof EmailTakenError) {
+      return res.status(409).json({ error: 'Email already registered' });
+    }
+    console.error('Register error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * POST /api/auth/verify-email
+ * Verify an email address with the token from the emailed link
+ */
+router.post(
+  '/verify-email',
+  validateBody(verifyEmailSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { token }: VerifyEmailRequest = req.body;
+      
+      const user = await verifyEmail(token);
+      await auditRequest(req, { type: 'email_verified', userId: user.id, email: user.email });
+      
+      res.json({ message: 'Email verified' });
+    } catch (error) {
+      if (error instanceof EmailVerificationError) {
+        const messages = {
+          invalid: 'Invalid verification link',
+          expired: 'Verification link expired',
+          already_used: 'Verification link already used',
+        };
+        return res.status(400).json({ error: messages[error.reason], reason: error.reason });
+      }
+      console.error('Verify email error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Send a new verification link
+ * 
+ * The response is the same whether or not the email has an
+ * unverified account, so it can't be used to find accounts.
+ */
+router.post(
+  '/verify-email/resend',
+  ...verificationResendLimits,
+  validateBody(emailSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { email }: EmailRequest = req.body;
+      
+      const user = await getUserRepository().findByEmail(email);
+      if (user && user.emailVerifiedAt === null) {
+        await sendVerificationEmail(user);
+      }
+      
+      res.status(202).json({
+        message: 'If that account needs verification, a new link is on its way',
+      });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/login
+ * Login endpoint
+ */
+router.post(
+  '/login',
+  ...loginLimits,
+  validateBody(loginSchema),
+  async (req: Request, res: Response) => {
+    try {
+      // 1. Input was validated by the schema
+      const { email, password }: LoginRequest = req.body;
+      
+      // 2. Refuse locked accounts before checking the password
+      const lockedUntil = await getAccountLockedUntil(email);
+      if (lockedUntil) {
+        await auditRequest(req, { type: 'login_failed', email, reason: 'account_locked' });
+        return sendTooManyRequests(res, lockedUntil, 'account_locked');
+      }
+      
+      // 3. Find user
+      const user = await getUserRepository().findByEmail(email);
+      
+      // 4. Verify password (same response and timing for unknown emails)
+      const isValid = await verifyPassword(password, user?.passwordHash ?? null);
+      if (!user || !isValid) {
+        await recordLoginFailure(email);
+        await auditRequest(req, {
+          type: 'login_failed',
+          userId: user?.id,
+          email,
+          reason: 'invalid_credentials',
+        });
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+      
+      // 5. Require a verified email (only revealed to the right password)
+      if (user.emailVerifiedAt === null) {
+        await auditRequest(req, {
+          type: 'login_failed',
+          userId: user.id,
+          email,
+          reason: 'email_not_verified',
+        });
+        return res.status(403).json({
+          error: 'Email not verified',
+          code: 'email_not_verified',
+        });
+      }
+      
+      // 6. With MFA on, the password only earns a challenge for /login/mfa
+      // (failures aren't reset yet, so guessing codes still leads to a lockout)
+      if (await isMfaEnabled(user.id)) {
+        await auditRequest(req, { type: 'mfa_challenge_issued', userId: user.id, email });
+        return res.json({
+          mfaRequired: true,
+          mfaToken: generateMfaChallengeToken(user),
+          expiresIn: tokenPolicy.mfaChallengeTokenTtl,
+        });
+      }
+      await recordLoginSuccess(email);
+      await auditRequest(req, {
+        type: 'login_succeeded',
+        userId: user.id,
+        email,
+        details: { method: 'password' },
+      });
+      
+      // 7. Generate and return tokens
+      res.json(await tokenResponse(user, req));
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/login/mfa
+ * Second login step: exchange the MFA challenge and a code
+ * (from the authenticator app, or a recovery code) for tokens
+ */
+router.post(
+  '/login/mfa',
+  mfaLimit,
+  validateBody(loginMfaSchema),
+  async (req: Request, res: Response) => {
+    try {
+      // 1. Input was validated by the schema
+      const { mfaToken, code }: LoginMfaRequest = req.body;
+      
+      // 2. Verify the challenge (proof the password was right)
+      let challenge;
+      try {
+        challenge = verifyMfaChallengeToken(mfaToken);
+      } catch {
+        return res.status(401).json({
+          error: 'MFA challenge invalid or expired. Please log in again.',
+          code: 'mfa_challenge_invalid',
+        });
+      }
+      
+      // 3. Get user - a password reset since the challenge cancels it
+      const user = await getUserRepository().findById(challenge.sub);
+      if (!user || user.tokenVersion !== challenge.tokenVersion) {
+        return res.status(401).json({
+          error: 'MFA challenge invalid or expired. Please log in again.',
+          code: 'mfa_challenge_invalid',
+        });
+      }
+      
+      // 4. Wrong codes count toward the same lockout as wrong passwords
+      const lockedUntil = await getAccountLockedUntil(user.email);
+      if (lockedUntil) {
+        await auditRequest(req, {
+          type: 'login_failed',
+          userId: user.id,
+          email: user.email,
+          reason: 'account_locked',
+        });
+        return sendTooManyRequests(res, lockedUntil, 'account_locked');
+      }
+      
+      let method;
+      try {
+        method = await verifyMfaCode(user.id, code);
+      } catch (error) {
+        if (error instanceof MfaError) {
+          await recordLoginFailure(user.email);
+          await auditRequest(req, {
+            type: 'login_failed',
+            userId: user.id,
+            email: user.email,
+            reason: 'invalid_mfa_code',
+          });
+          return res.status(401).json({ error: 'Invalid MFA code', code: 'invalid_mfa_code' });
+        }
+        throw error;
+      }
+      await recordLoginSuccess(user.email);
+      await auditRequest(req, {
+        type: 'login_succeeded',
+        userId: user.id,
+        email: user.email,
+        details: { method: 'password', mfa: method },
+      });
+      
+      // 5. Generate and return tokens
+      res.json(await tokenResponse(user, req));
+    } catch (error) {
+      console.error('MFA login error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * Map an MFA failure to a response
+ */
+function sendMfaError(res: Response, error: MfaError) {
+  const messages = {
+    not_enrolled: 'MFA enrollment not started',
+    already_enrolled: 'MFA already enabled',
+    invalid_code: 'Invalid MFA code',
+  };
+  return res
+    .status(error.reason === 'already_enrolled' ? 409 : 400)
+    .json({ error: messages[error.reason], reason: error.reason });
+}
+
+/**
+ * POST /api/auth/mfa/enroll
+ * Start MFA enrollment (requires authentication)
+ * Returns the secret and an otpauth:// URI to show as a QR code
+ */
+router.post(
+  '/mfa/enroll',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      const { secret, otpauthUri } = await startMfaEnrollment(req.user!);
+      
+      // The secret is a credential - keep it out of caches
+      res.set('Cache-Control', 'no-store');
+      res.json({ secret, otpauthUri });
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return sendMfaError(res, error);
+      }
+      console.error('MFA enroll error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/mfa/confirm
+ * Switch MFA on with a code from the authenticator app
+ * Returns the recovery codes - this is the only time they are shown
+ */
+router.post(
+  '/mfa/confirm',
+  authenticateToken,
+  requireUserSession,
+  validateBody(mfaCodeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { code }: MfaCodeRequest = req.body;
+      
+      const recoveryCodes = await confirmMfaEnrollment(req.user!.id, code);
+      await auditRequest(req, { type: 'mfa_enabled', userId: req.user!.id });
+      
+      res.set('Cache-Control', 'no-store');
+      res.json({
+        message: 'MFA enabled. Store these recovery codes somewhere safe.',
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return sendMfaError(res, error);
+      }
+      console.error('MFA confirm error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/mfa/disable
+ * Switch MFA off (requires authentication and a current code)
+ * 
+ * Wrong codes count toward the login lockout, so a stolen access token
+ * can't be used to guess the code either.
+ */
+router.post(
+  '/mfa/disable',
+  mfaLimit,
+  authenticateToken,
+  requireUserSession,
+  validateBody(mfaCodeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { code }: MfaCodeRequest = req.body;
+      
+      const lockedUntil = await getAccountLockedUntil(req.user!.email);
+      if (lockedUntil) {
+        return sendTooManyRequests(res, lockedUntil, 'account_locked');
+      }
+      
+      await disableMfa(req.user!.id, code);
+      await auditRequest(req, { type: 'mfa_disabled', userId: req.user!.id });
+      
+      res.json({ message: 'MFA disabled' });
+    } catch (error) {
+      if (error instanceof MfaError) {
+        if (error.reason === 'invalid_code') {
+          await recordLoginFailure(req.user!.email);
+        }
+        return sendMfaError(res, error);
+      }
+      console.error('MFA disable error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link
+ * 
+ * The response is the same whether or not the email has an account,
+ * so it can't be used to find accounts.
+ */
+router.post(
+  '/forgot-password',
+  ...passwordResetLimits,
+  validateBody(emailSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { email }: EmailRequest = req.body;
+      
+      await requestPasswordReset(email);
+      // Only the email - whether it has an account stays out of the response
+      await auditRequest(req, { type: 'password_reset_requested', email });
+      
+      res.status(202).json({
+        message: 'If that email has an account, a reset link is on its way',
+      });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the token from the emailed link
+ * (logs out every existing session)
+ */
+router.post(
+  '/reset-password',
+  validateBody(resetPasswordSchema),
+  async (req: Request, res: Response) => {
+    try {
+      // 1. Input was validated by the schema (strong password)
+      const { token, password }: ResetPasswordRequest = req.body;
+      
+      // 2. Use up the token and change the password
+      const userId = await resetPassword(token, password);
+      await auditRequest(req, { type: 'password_reset', userId });
+      
+      res.json({ message: 'Password reset. Please log in with your new password.' });
+    } catch (error) {
+      if (error instanceof PasswordResetError) {
+        const messages = {
+          invalid: 'Invalid reset link',
+          expired: 'Reset link expired',
+          already_used: 'Reset link already used',
+        };
+        return res.status(400).json({ error: messages[error.reason], reason: error.reason });
+      }
+      console.error('Reset password error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/magic-link
+ * Email a one-time login link
+ * 
+ * The response is the same whether or not the email has an account,
+ * so it can't be used to find accounts.
+ */
+router.post(
+  '/magic-link',
+  ...magicLinkLimits,
+  validateBody(emailSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { email }: EmailRequest = req.body;
+      
+      await requestMagicLink(email);
+      await auditRequest(req, { type: 'magic_link_requested', email });
+      
+      res.status(202).json({
+        message: 'If that email has an account, a login link is on its way',
+      });
+    } catch (error) {
+      console.error('Magic link error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Exchange the token from the emailed link for tokens
+ * (or an MFA challenge - the link replaces the password, not the second factor)
+ */
+router.post(
+  '/magic-link/verify',
+  validateBody(magicLinkVerifySchema),
+  async (req: Request, res: Response) => {
+    try {
+      // 1. Use up the token
+      const { token }: MagicLinkVerifyRequest = req.body;
+      const user = await verifyMagicLink(token);
+      
+      // 2. With MFA on, continue at /login/mfa
+      if (await isMfaEnabled(user.id)) {
+        await auditRequest(req, {
+          type: 'mfa_challenge_issued',
+          userId: user.id,
+          email: user.email,
+        });
+        return res.json({
+          mfaRequired: true,
+          mfaToken: generateMfaChallengeToken(user),
+          expiresIn: tokenPolicy.mfaChallengeTokenTtl,
+        });
+      }
+      await auditRequest(req, {
+        type: 'login_succeeded',
+        userId: user.id,
+        email: user.email,
+        details: { method: 'magic_link' },
+      });
+      
+      // 3. Generate and return tokens
+      res.json(await tokenResponse(user, req));
+    } catch (error) {
+      if (error instanceof MagicLinkError) {
+        const messages = {
+          invalid: 'Invalid login link',
+          expired: 'Login link expired',
+          already_used: 'Login link already used',
+        };
+        await auditRequest(req, {
+          type: 'login_failed',
+          reason: `magic_link_${error.reason}`,
+          details: { method: 'magic_link' },
+        });
+        return res.status(400).json({ error: messages[error.reason], reason: error.reason });
+      }
+      console.error('Magic link verify error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 /**
  * POST /api/auth/refresh
  * Refresh access token using refresh token
  */
-router.post('/refresh', async (req: Request, res: Response) => {
-  try {
-    const { refreshToken } = req.body;
-    
-    if (!refreshToken) {
-      return res.status(401).json({ error: 'Refresh token required' });
+router.post(
+  '/refresh',
+  refreshLimit,
+  validateBody(refreshSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { refreshToken }: RefreshRequest = req.body;
+      
+      // 1. Verify refresh token
+      const decoded = verifyRefreshToken(refreshToken);
+      
+      // 2. OAuth client tokens refresh at /oauth/token, which keeps their scope
+      if (decoded.client_id) {
+        return res.status(401).json({ error: 'Invalid refresh token' });
+      }
+      
+      // 3. Use up the token - replaying a rotated one revokes its family
+      await consumeRefreshToken(decoded);
+      
+      // 4. Get user (current role and email, not the ones at login)
+      const user = await getUserRepository().findById(decoded.sub);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid refresh token' });
+      }
+      
+      // 5. Check token version (bumped to invalidate every refresh token)
+      if (user.tokenVersion !== decoded.tokenVersion) {
+        return res.status(401).json({ error: 'Token invalidated' });
+      }
+      
+      // 6. The device is still active - shown in its session's last refresh
+      await getSessionStore().touch(decoded.familyId, Date.now());
+      await auditRequest(req, {
+        type: 'token_refreshed',
+        userId: user.id,
+        details: { sessionId: decoded.familyId },
+      });
+      
+      // 7. Generate new tokens in the same family (and same login time)
+      const { accessToken, refreshToken: newRefreshToken } = await authCore.issueTokens(user, {
+        familyId: decoded.familyId,
+        authTime: decoded.authTime,
+      });
+      
+      // 8. Return new tokens
+      res.json({
+        accessToken,
+        refreshToken: newRefreshToken,
+        expiresIn: getTokenLifetimes(user.role).accessTokenTtl,
+      });
+    } catch (error) {
+      if (error instanceof RefreshTokenReuseError) {
+        console.warn('Refresh token reuse, family revoked:', error.familyId);
+        await getSessionStore().revoke(error.familyId, Date.now());
+        await auditRequest(req, {
+          type: 'refresh_token_reused',
+          userId: decodeToken(req.body.refreshToken)?.sub ?? null,
+          details: { sessionId: error.familyId },
+        });
+        return res.status(401).json({ error: 'Refresh token reuse detected' });
+      }
+      if (error instanceof Error && error.message.includes('expired')) {
+        return res.status(401).json({ error: 'Refresh token expired' });
+      }
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/logout
+ * Logout endpoint (requires authentication)
+ */
+router.post(
+  '/logout',
+  authenticateToken,
+  validateBody(logoutSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { refreshToken }: LogoutRequest = req.body;
+      const userId = req.user!.id;
+      
+      // Revoke the access token used for this request, effective immediately
+      // (opaque tokens are simply deleted; JWTs go on the denylist)
+      if (tokenPolicy.accessTokenFormat === 'opaque') {
+        await getOpaqueTokenStore().delete(req.auth!.jti);
+      } else {
+        await revokeAccessToken(req.auth!.jti, req.auth!.expiresAt);
+      }
+      
+      // Revoke the refresh token's whole family (this device's session) -
+      // only for a token we signed, or a forged one could end any session
+      let sessionId: string | null = null;
+      if (refreshToken) {
+        let decoded = null;
+        try {
+          decoded = verifyRefreshToken(refreshToken);
+        } catch {
+          // Invalid or expired: nothing to revoke
+        }
+        if (decoded && decoded.sub === userId) {
+          await getRefreshTokenStore().revokeFamily(decoded.familyId);
+          await getSessionStore().revoke(decoded.familyId, Date.now());
+          sessionId = decoded.familyId;
+        }
+      }
+      await auditRequest(req, { type: 'logout', userId, details: { sessionId } });
+      
+      // Other devices stay logged in - see POST /logout-all
+      
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/logout-all
+ * Log out every device (requires authentication)
+ * Increments the token version, so no refresh token issued so far works
+ */
+router.post(
+  '/logout-all',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      await logOutEverywhere(req.user!.id);
+      await auditRequest(req, { type: 'logout_all', userId: req.user!.id });
+      
+      res.json({ message: 'Logged out on all devices' });
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/auth/sessions
+ * Where the current user is logged in (requires authentication)
+ */
+router.get(
+  '/sessions',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      const sessions = await listActiveSessions(req.user!.id);
+      
+      res.json({ sessions: sessions.map(toSessionSummary) });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Log one of the current user's devices out (requires authentication)
+ */
+router.delete(
+  '/sessions/:id',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      // Someone else's session id looks exactly like a missing one
+      if (!(await revokeSession(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      await auditRequest(req, {
+        type: 'session_revoked',
+        userId: req.user!.id,
+        details: { sessionId: req.params.id },
+      });
+      
+      res.json({ message: 'Session revoked' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/auth/users/:userId/sessions
+ * Where a user is logged in, for support staff (users:read)
+ */
+router.get(
+  '/users/:userId/sessions',
+  authenticateToken,
+  requirePermission('users:read'),
+  async (req: Request, res: Response) => {
+    try {
+      const sessions = await listActiveSessions(req.params.userId);
+      
+      res.json({ sessions: sessions.map(toSessionSummary) });
+    } catch (error) {
+      console.error('List user sessions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/users/:userId/revoke
+ * Revoke all of a user's tokens, e.g. when banning them (admin only)
+ */
+router.post(
+  '/users/:userId/revoke',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      await logOutEverywhere(req.params.userId);
+      await auditRequest(req, {
+        type: 'tokens_revoked',
+        userId: req.params.userId,
+        actorId: req.user!.id,
+      });
+      
+      res.json({ message: 'User tokens revoked' });
+    } catch (error) {
+      console.error('Revoke error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/users/:userId/unlock
+ * Lift a brute-force lockout (admin only)
+ */
+router.post(
+  '/users/:userId/unlock',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await getUserRepository().findById(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      await unlockAccount(user.email);
+      await auditRequest(req, { type: 'account_unlocked', userId: user.id, actorId: req.user!.id });
+      
+      res.json({ message: 'Account unlocked' });
+    } catch (error) {
+      console.error('Unlock error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/introspect
+ * Token introspection for resource servers (RFC 7662)
+ * 
+ * Callers authenticate with HTTP Basic credentials. The response is
+ * `{ active: false }` for any token that is unknown, expired or revoked -
+ * never a reason why.
+ */
+router.post(
+  '/introspect',
+  express.urlencoded({ extended: false }),
+  async (req: Request, res: Response) => {
+    if (!isIntrospectionClient(req.headers.authorization)) {
+      res.set('WWW-Authenticate', 'Basic realm="introspect"');
+      return res.status(401).json({ error: 'invalid_client' });
     }
     
-    // 1. Verify refresh token
-    const decoded = verifyRefreshToken(refreshToken);
-    
-    // 2. Check if token was revoked (if using rotation)
-    // const storedToken = await getStoredRefreshToken(decoded.sub);
-    // if (!storedToken || storedToken !== refreshToken) {
-    //   return res.status(401).json({ error: 'Invalid refresh token' });
-    // }
-    
-    // 3. Get user (replace with your database query)
-    // const user = await User.findById(decoded.sub);
-    const mockUser = {
-      id: decoded.sub,
-      email: 'user@example.com',
-      role: 'user',
-      tokenVersion: decoded.tokenVersion,
-    };
-    
-    // 4. Check token version (for rotation/revocation)
-    // if (user.tokenVersion !== decoded.tokenVersion) {
-    //   return res.status(401).json({ error: 'Token invalidated' });
-    // }
+    const { token, token_type_hint: hint } = req.body;
+    if (!token) {
+      return res.status(400).json({ error: 'invalid_request' });
+    }
     
-    // 5. Generate new tokens
-    const { accessToken, refreshToken: newRefreshToken } = generateTokens(mockUser);
+    // Responses contain claims - never cache them
+    res.set('Cache-Control', 'no-store');
     
-    // 6. Update stored refresh token (rotation)
-    // await updateRefreshToken(mockUser.id, newRefreshToken);
+    // The hint only decides which kind of token to try first
+    const result = hint === 'refresh_token'
+      ? await introspectRefreshToken(token) || await introspectAccessToken(token)
+      : await introspectAccessToken(token) || await introspectRefreshToken(token);
     
-    // 7. Return new tokens
-    res.json({
-      accessToken,
-      refreshToken: newRefreshToken,
-      expiresIn: 900,
-    });
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('expired')) {
-      return res.status(401).json({ error: 'Refresh token expired' });
-    }
-    return res.status(401).json({ error: 'Invalid refresh token' });
+    res.json(result || { active: false });
   }
-});
+);
 
 /**
- * POST /api/auth/logout
- * Logout endpoint (requires authentication)
+ * Check resource server credentials for the introspection endpoint
  */
-router.post('/logout', authenticateToken, async (req: Request, res: Response) => {
+function isIntrospectionClient(authHeader?: string): boolean {
+  const clientId = process.env.INTROSPECTION_CLIENT_ID;
+  const clientSecret = process.env.INTROSPECTION_CLIENT_SECRET;
+  if (!clientId || !clientSecret || !authHeader?.startsWith('Basic ')) {
+    return false;
+  }
+  
+  const presented = Buffer.from(authHeader.slice('Basic '.length), 'base64');
+  const expected = Buffer.from(`${clientId}:${clientSecret}`);
+  return presented.length === expected.length
+    && crypto.timingSafeEqual(presented, expected);
+}
+
+async function introspectAccessToken(token: string) {
   try {
-    const { refreshToken } = req.body;
-    const userId = req.user!.id;
-    
-    // Revoke refresh token (if using rotation)
-    // await revokeRefreshToken(userId, refreshToken);
+    const payload: AccessTokenPayload = token.includes('.')
+      ? verifyAccessToken(token)
+      : await verifyOpaqueAccessToken(token);
+    // Logged out, banned or killed by logout-all: as dead as an expired token
+    if (await isAccessTokenRevoked(payload)) {
+      return null;
+    }
     
-    // Optionally increment token version to invalidate all tokens
-    // await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+    return {
+      active: true,
+      token_type: 'access_token',
+      sub: payload.sub,
+      username: payload.email,
+      role: payload.role,
+      client_id: payload.client_id,
+      scope: payload.scope,
+      iss: payload.iss,
+      aud: payload.aud,
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function introspectRefreshToken(token: string) {
+  try {
+    const payload = verifyRefreshToken(token);
+    const stored = await getRefreshTokenStore().find(payload.jti);
+    if (!stored || stored.rotatedAt !== null || stored.revokedAt !== null) {
+      return null;
+    }
     
-    res.json({ message: 'Logged out successfully' });
-  } catch (error) {
-    console.error('Logout error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return {
+      active: true,
+      token_type: 'refresh_token',
+      sub: payload.sub,
+      iss: payload.iss,
+      aud: payload.aud,
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+  } catch {
+    return null;
   }
-});
+}
+
+const auditQuerySchema = {
+  userId: optional(string()),
+  type: optional(oneOf(AUDIT_EVENT_TYPES)),
+  from: optional(timestamp()),
+  to: optional(timestamp()),
+  limit: optional(positiveInteger({ max: 500 })),
+};
+
+/**
+ * GET /api/auth/audit?userId=&type=&from=&to=&limit=
+ * Search the audit log, newest first (admin only)
+ * from/to take ISO 8601 dates or ms since epoch
+ */
+router.get(
+  '/audit',
+  authenticateToken,
+  requireRole('admin'),
+  validateQuery(auditQuerySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const filter: AuditQuery = res.locals.query;
+      const events = await queryAuditEvents(filter);
+      if (!events) {
+        return res.status(501).json({ error: 'No queryable audit sink configured' });
+      }
+      
+      res.json({ events });
+    } catch (error) {
+      console.error('Audit query error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
 
 /**
  * GET /api/auth/me
@@ -157,6 +1109,10 @@ export default router;
  * Usage in main app:
  * 
  * import authRoutes from './routes/auth';
+ * app.use(express.json());
  * app.use('/api/auth', authRoutes);
+ * 
+ * // Keep users across restarts (in-memory by default)
+ * setUserRepository(new SqliteUserRepository(new Database('auth.db')));
  */
 
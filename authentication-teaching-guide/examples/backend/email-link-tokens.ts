@@ -0,0 +1,127 @@
+/**
+ * Single-Use Email Link Tokens
+ *
+ * Password reset and magic link login both email a link with a random
+ * token. The link grants access to the account, so the token is:
+ * - Random and stored only as a SHA-256 hash (a database leak can't be replayed)
+ * - Short-lived (each flow sets its own TTL in tokenPolicy)
+ * - Single-use, and all of a user's tokens die once one is used
+ *
+ * Each flow keeps its own store, so a reset token never works as a
+ * login link or the other way round.
+ */
+
+import crypto from 'crypto';
+
+export interface EmailLinkTokenRecord {
+  tokenHash: string;
+  userId: string;
+  expiresAt: number; // ms since epoch
+  usedAt: number | null;
+}
+
+/**
+ * Storage backend for email link tokens
+ * Implement this for your database (Postgres, Redis, ...)
+ */
+export interface EmailLinkTokenStore {
+  save(record: EmailLinkTokenRecord): Promise<void>;
+  find(tokenHash: string): Promise<EmailLinkTokenRecord | null>;
+  /** Mark as used; resolves false if it was already used (atomic check-and-set) */
+  markUsed(tokenHash: string): Promise<boolean>;
+  deleteAllForUser(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryEmailLinkTokenStore implements EmailLinkTokenStore {
+  private records = new Map<string, EmailLinkTokenRecord>();
+
+  async save(record: EmailLinkTokenRecord): Promise<void> {
+    this.records.set(record.tokenHash, { ...record });
+  }
+
+  async find(tokenHash: string): Promise<EmailLinkTokenRecord | null> {
+    const record = this.records.get(tokenHash);
+    return record ? { ...record } : null;
+  }
+
+  async markUsed(tokenHash: string): Promise<boolean> {
+    const record = this.records.get(tokenHash);
+    if (!record || record.usedAt !== null) return false;
+
+    record.usedAt = Date.now();
+    return true;
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    for (const [tokenHash, record] of this.records) {
+      if (record.userId === userId) this.records.delete(tokenHash);
+    }
+  }
+}
+
+export type EmailLinkTokenFailure = 'invalid' | 'expired' | 'already_used';
+
+function hashEmailLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Store a new token for a user; returns the token to put in the link
+ */
+export async function issueEmailLinkToken(
+  store: EmailLinkTokenStore,
+  userId: string,
+  ttlSeconds: number
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await store.save({
+    tokenHash: hashEmailLinkToken(token),
+    userId,
+    expiresAt: Date.now() + ttlSeconds * 1000,
+    usedAt: null,
+  });
+  return token;
+}
+
+/**
+ * Use up a token and every other token of its user
+ * Resolves the user id; throws the flow's own error (from `fail`) if the
+ * token can't be used
+ */
+export async function consumeEmailLinkToken(
+  store: EmailLinkTokenStore,
+  token: string,
+  fail: (reason: EmailLinkTokenFailure) => Error
+): Promise<string> {
+  const tokenHash = hashEmailLinkToken(token);
+  const record = await store.find(tokenHash);
+  if (!record) {
+    throw fail('invalid');
+  }
+  if (Date.now() >= record.expiresAt) {
+    throw fail('expired');
+  }
+  if (!(await store.markUsed(tokenHash))) {
+    throw fail('already_used');
+  }
+
+  // Other links sent before this one must not work anymore
+  await store.deleteAllForUser(record.userId);
+  return record.userId;
+}
+
+/**
+ * Usage example:
+ *
+ * const store = new InMemoryEmailLinkTokenStore();
+ *
+ * // Email the link
+ * const token = await issueEmailLinkToken(store, user.id, 15 * 60);
+ * await sendMail({ to: user.email, subject: '...', text: `${url}?token=${token}` });
+ *
+ * // The link was opened
+ * const userId = await consumeEmailLinkToken(store, token, (reason) => new MyFlowError(reason));
+ */
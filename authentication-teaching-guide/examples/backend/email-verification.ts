@@ -0,0 +1,95 @@
+/**
+ * Email Verification
+ *
+ * This example shows how to prove a user owns their email address
+ * before they can log in:
+ * 1. Registration emails a link with a signed token
+ * 2. The user opens it and the app posts the token to /verify-email
+ * 3. The account is marked verified
+ *
+ * Tokens are signed JWTs (type `email_verification`), so nothing has to
+ * be stored to check them. They are still single-use: a token only works
+ * while its account is unverified AND still has the address it was sent
+ * to - once verification succeeds, every copy of the link is dead.
+ */
+
+import jwt from 'jsonwebtoken';
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+} from './token-utils';
+import { getUserRepository, UserRecord } from './user-repository';
+import { sendMail } from './mailer';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+export type EmailVerificationFailure = 'invalid' | 'expired' | 'already_used';
+
+/**
+ * Thrown when a verification token can't be used
+ */
+export class EmailVerificationError extends Error {
+  constructor(public readonly reason: EmailVerificationFailure) {
+    super(`Email verification failed: ${reason}`);
+    this.name = 'EmailVerificationError';
+  }
+}
+
+/**
+ * Email a verification link to the user
+ */
+export async function sendVerificationEmail(user: Pick<UserRecord, 'id' | 'email'>): Promise<void> {
+  const token = generateEmailVerificationToken(user);
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Confirm your email address by opening this link:\n\n${link}\n\n`
+      + 'If you did not create an account, you can ignore this email.',
+  });
+}
+
+/**
+ * Mark the token's account verified
+ * Throws EmailVerificationError if the token can't be used
+ */
+export async function verifyEmail(token: string): Promise<UserRecord> {
+  let payload;
+  try {
+    payload = verifyEmailVerificationToken(token);
+  } catch (error) {
+    throw new EmailVerificationError(
+      error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid'
+    );
+  }
+
+  const users = getUserRepository();
+  const user = await users.findById(payload.sub);
+  if (!user) {
+    throw new EmailVerificationError('invalid');
+  }
+
+  // Already verified, or sent to an address the account no longer has
+  if (user.emailVerifiedAt !== null || user.email !== payload.email) {
+    throw new EmailVerificationError('already_used');
+  }
+
+  return (await users.update(user.id, { emailVerifiedAt: Date.now() }))!;
+}
+
+/**
+ * Usage example:
+ *
+ * // After registration
+ * await sendVerificationEmail(user);
+ *
+ * // POST /api/auth/verify-email { token }
+ * try {
+ *   await verifyEmail(req.body.token);
+ * } catch (error) {
+ *   if (error instanceof EmailVerificationError) {
+ *     // 'expired' -> offer to resend
+ *   }
+ * }
+ */
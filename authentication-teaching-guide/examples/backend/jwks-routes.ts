@@ -0,0 +1,34 @@
+/**
+ * Express JWKS Route
+ *
+ * This example shows how to publish the public signing keys
+ * as a JSON Web Key Set, so other services (Next.js middleware,
+ * microservices, API gateways) can verify tokens without the private key.
+ */
+
+import express, { Request, Response } from 'express';
+import { getJwks } from './signing-keys';
+
+const router = express.Router();
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys used to verify token signatures
+ */
+router.get('/.well-known/jwks.json', (req: Request, res: Response) => {
+  // Let verifiers cache keys, but short enough to pick up rotations
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(getJwks());
+});
+
+export default router;
+
+/**
+ * Usage in main app:
+ *
+ * import jwksRoutes from './routes/jwks';
+ * import authRoutes from './routes/auth';
+ *
+ * app.use(jwksRoutes); // served from the root: /.well-known/jwks.json
+ * app.use('/api/auth', authRoutes);
+ */
@@ -0,0 +1,109 @@
+/**
+ * Magic Link Login (passwordless)
+ *
+ * This example shows login by email link instead of password:
+ * 1. The user enters their email
+ * 2. If the account exists, a link with a random token is emailed
+ * 3. Opening the link (web page or mobile deep link) posts the token back
+ * 4. The token is used up and the usual token pair is issued
+ *
+ * The link is as good as a password, so its token is short-lived
+ * (tokenPolicy.magicLinkTokenTtl) and single-use - see email-link-tokens.ts.
+ *
+ * Mail goes through mailer.ts, so tests and local development read the
+ * link from the outbox instead of a real inbox.
+ */
+
+import { getUserRepository, UserRecord } from './user-repository';
+import { sendMail } from './mailer';
+import {
+  consumeEmailLinkToken,
+  EmailLinkTokenFailure,
+  EmailLinkTokenStore,
+  InMemoryEmailLinkTokenStore,
+  issueEmailLinkToken,
+} from './email-link-tokens';
+import { tokenPolicy } from '../shared/token-policy';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+// Mobile apps: register this path as a universal link / app link, so the
+// email opens the app (custom schemes like myapp:// can be claimed by any app)
+const MAGIC_LINK_URL = process.env.MAGIC_LINK_URL || `${APP_URL}/magic-link`;
+
+let magicLinkStore: EmailLinkTokenStore = new InMemoryEmailLinkTokenStore();
+
+/**
+ * Configure the store used for magic link tokens (call once at startup)
+ */
+export function setMagicLinkStore(store: EmailLinkTokenStore): void {
+  magicLinkStore = store;
+}
+
+export type MagicLinkFailure = EmailLinkTokenFailure;
+
+/**
+ * Thrown when a magic link token can't be used
+ */
+export class MagicLinkError extends Error {
+  constructor(public readonly reason: MagicLinkFailure) {
+    super(`Magic link login failed: ${reason}`);
+    this.name = 'MagicLinkError';
+  }
+}
+
+/**
+ * Email a login link if the email has an account
+ * Does nothing otherwise - callers must respond the same either way
+ */
+export async function requestMagicLink(email: string): Promise<void> {
+  const user = await getUserRepository().findByEmail(email);
+  if (!user) return;
+
+  const token = await issueEmailLinkToken(magicLinkStore, user.id, tokenPolicy.magicLinkTokenTtl);
+
+  const link = `${MAGIC_LINK_URL}?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Your login link',
+    text: `Open this link to log in:\n\n${link}\n\n`
+      + `The link works once, for ${tokenPolicy.magicLinkTokenTtl / 60} minutes. `
+      + 'If you didn\'t ask for it, you can ignore this email.',
+  });
+}
+
+/**
+ * Use up a magic link token
+ * Resolves the user to log in; throws MagicLinkError if the token
+ * can't be used
+ */
+export async function verifyMagicLink(token: string): Promise<UserRecord> {
+  const userId = await consumeEmailLinkToken(
+    magicLinkStore,
+    token,
+    (reason) => new MagicLinkError(reason)
+  );
+
+  const users = getUserRepository();
+  const user = await users.findById(userId);
+  if (!user) {
+    throw new MagicLinkError('invalid');
+  }
+
+  // Logging in from the emailed link marks the address as verified too
+  if (user.emailVerifiedAt === null) {
+    return (await users.update(user.id, { emailVerifiedAt: Date.now() }))!;
+  }
+  return user;
+}
+
+/**
+ * Usage example:
+ *
+ * // POST /api/auth/magic-link { email }
+ * await requestMagicLink(email);
+ * res.status(202).json({ message: 'If that email has an account, a login link is on its way' });
+ *
+ * // POST /api/auth/magic-link/verify { token }
+ * const user = await verifyMagicLink(token);
+ * res.json(await tokenResponse(user, req));
+ */
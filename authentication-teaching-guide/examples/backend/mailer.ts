@@ -0,0 +1,109 @@
+/**
+ * Sending Email
+ *
+ * This example shows a small mail abstraction for auth emails
+ * (verification links, password resets, magic links):
+ * - Routes call sendMail() and never know how mail is delivered
+ * - Production plugs in a transport for its provider (SES, SMTP, ...)
+ * - Tests and local development use an outbox that just keeps the
+ *   messages, so no SMTP server is needed to click a link
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  id: string;
+  sentAt: number; // ms since epoch
+}
+
+/**
+ * Delivers messages
+ * Implement this for your provider (nodemailer, SES, Postmark, ...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function toSentMail(message: MailMessage): SentMail {
+  return { ...message, id: crypto.randomUUID(), sentAt: Date.now() };
+}
+
+/**
+ * Keeps messages in memory (tests)
+ */
+export class InMemoryOutbox implements MailTransport {
+  readonly messages: SentMail[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(toSentMail(message));
+  }
+
+  /**
+   * Most recent message, optionally to one address
+   */
+  latest(to?: string): SentMail | null {
+    const matching = to
+      ? this.messages.filter((message) => message.to === to)
+      : this.messages;
+    return matching[matching.length - 1] ?? null;
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Writes each message as a JSON file (local development)
+ * Open the newest file in `outbox/` to read the email
+ */
+export class FileOutbox implements MailTransport {
+  constructor(private directory = 'outbox') {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sent = toSentMail(message);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${sent.sentAt}-${sent.id}.json`),
+      JSON.stringify(sent, null, 2)
+    );
+  }
+}
+
+let mailTransport: MailTransport = new FileOutbox();
+
+/**
+ * Configure how mail is delivered (call once at startup)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  mailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport.send(message);
+}
+
+/**
+ * Usage example:
+ *
+ * // Tests
+ * const outbox = new InMemoryOutbox();
+ * setMailTransport(outbox);
+ * // ... register ...
+ * const email = outbox.latest('user@example.com');
+ *
+ * // Production
+ * setMailTransport({
+ *   send: (message) => smtp.sendMail({ from: 'no-reply@example.com', ...message }),
+ * });
+ */
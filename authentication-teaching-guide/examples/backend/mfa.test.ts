@@ -0,0 +1,122 @@
+/**
+ * Tests: TOTP MFA and Recovery Codes
+ *
+ * Codes must match what authenticator apps compute, and no code -
+ * TOTP or recovery - may be used twice.
+ */
+
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  generateTotp,
+  InMemoryMfaStore,
+  isMfaEnabled,
+  MfaError,
+  setMfaStore,
+  startMfaEnrollment,
+  verifyMfaCode,
+} from './mfa';
+
+const user = { id: 'user-1', email: 'ada@example.com' };
+
+beforeEach(() => {
+  setMfaStore(new InMemoryMfaStore());
+});
+
+async function enroll() {
+  const { secret } = await startMfaEnrollment(user);
+  const recoveryCodes = await confirmMfaEnrollment(user.id, generateTotp(secret));
+  return { secret, recoveryCodes };
+}
+
+describe('generateTotp', () => {
+  // RFC 6238 appendix B (SHA-1), last six digits
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'; // base32 of "12345678901234567890"
+
+  test.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC test vector at %i', (seconds, code) => {
+    expect(generateTotp(rfcSecret, seconds * 1000)).toBe(code);
+  });
+});
+
+describe('enrollment', () => {
+  test('returns an otpauth URI and stays off until confirmed', async () => {
+    const { secret, otpauthUri } = await startMfaEnrollment(user);
+
+    expect(otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+    expect(new URL(otpauthUri).searchParams.get('secret')).toBe(secret);
+    expect(await isMfaEnabled(user.id)).toBe(false);
+  });
+
+  test('confirming with a wrong code keeps MFA off', async () => {
+    await startMfaEnrollment(user);
+
+    await expect(confirmMfaEnrollment(user.id, '000000')).rejects.toThrow(MfaError);
+    expect(await isMfaEnabled(user.id)).toBe(false);
+  });
+
+  test('confirming turns MFA on and returns ten recovery codes', async () => {
+    const { recoveryCodes } = await enroll();
+
+    expect(await isMfaEnabled(user.id)).toBe(true);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(new Set(recoveryCodes).size).toBe(10);
+  });
+
+  test('refuses to re-enroll while MFA is on', async () => {
+    await enroll();
+
+    await expect(startMfaEnrollment(user)).rejects.toMatchObject({ reason: 'already_enrolled' });
+  });
+});
+
+describe('verifyMfaCode', () => {
+  test('accepts a code for the next time step once', async () => {
+    const { secret } = await enroll();
+    const code = generateTotp(secret, Date.now() + 30 * 1000);
+
+    await expect(verifyMfaCode(user.id, code)).resolves.toBe('totp');
+    await expect(verifyMfaCode(user.id, code)).rejects.toMatchObject({ reason: 'invalid_code' });
+  });
+
+  test('rejects the code already used to confirm enrollment', async () => {
+    const { secret } = await startMfaEnrollment(user);
+    const code = generateTotp(secret);
+    await confirmMfaEnrollment(user.id, code);
+
+    await expect(verifyMfaCode(user.id, code)).rejects.toThrow(MfaError);
+  });
+
+  test('rejects codes outside the drift window', async () => {
+    const { secret } = await enroll();
+
+    await expect(
+      verifyMfaCode(user.id, generateTotp(secret, Date.now() + 5 * 60 * 1000))
+    ).rejects.toThrow(MfaError);
+  });
+
+  test('accepts each recovery code once, in any case and without the dash', async () => {
+    const { recoveryCodes } = await enroll();
+    const typed = recoveryCodes[0].replace('-', '').toLowerCase();
+
+    await expect(verifyMfaCode(user.id, typed)).resolves.toBe('recovery_code');
+    await expect(verifyMfaCode(user.id, recoveryCodes[0])).rejects.toThrow(MfaError);
+    await expect(verifyMfaCode(user.id, recoveryCodes[1])).resolves.toBe('recovery_code');
+  });
+});
+
+describe('disableMfa', () => {
+  test('requires a valid code', async () => {
+    const { recoveryCodes } = await enroll();
+
+    await expect(disableMfa(user.id, '123456')).rejects.toThrow(MfaError);
+    expect(await isMfaEnabled(user.id)).toBe(true);
+
+    await disableMfa(user.id, recoveryCodes[0]);
+    expect(await isMfaEnabled(user.id)).toBe(false);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * TOTP Multi-Factor Authentication
+ *
+ * This example shows a second factor with authenticator apps
+ * (Google Authenticator, 1Password, Authy, ...):
+ * 1. Enroll: the server creates a secret and shows it as an otpauth:// URI
+ *    (rendered as a QR code)
+ * 2. Confirm: the user types the app's current code, proving the app has
+ *    the secret - only then is MFA switched on, and recovery codes are
+ *    shown once
+ * 3. Login: after the password, the user must also send a code
+ *
+ * Codes follow RFC 6238 (HMAC-SHA1, 6 digits, 30 second steps). A code
+ * is accepted one step early or late for clock drift, and each step only
+ * once (a code seen over someone's shoulder can't be replayed).
+ *
+ * Recovery codes are for a lost phone. Like passwords, only their
+ * SHA-256 hashes are stored, and each works once.
+ *
+ * The TOTP secret itself can't be hashed - the server needs it to compute
+ * codes - so encrypt the column at rest in production.
+ */
+
+import crypto from 'crypto';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Example App';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface MfaEnrollment {
+  userId: string;
+  secret: string; // base32, as authenticator apps expect
+  confirmedAt: number | null; // ms since epoch; null until the first code is checked
+  recoveryCodeHashes: string[]; // unused codes only
+  lastUsedStep: number; // last accepted TOTP time step (replay protection)
+}
+
+/**
+ * Storage backend for MFA enrollments
+ * Implement this for your database (Postgres, Redis, ...)
+ */
+export interface MfaStore {
+  save(enrollment: MfaEnrollment): Promise<void>;
+  find(userId: string): Promise<MfaEnrollment | null>;
+  delete(userId: string): Promise<void>;
+  /** Record an accepted time step; resolves false if it isn't newer (atomic check-and-set) */
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  /** Remove a recovery code; resolves false if it wasn't there (atomic check-and-set) */
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryMfaStore implements MfaStore {
+  private enrollments = new Map<string, MfaEnrollment>();
+
+  async save(enrollment: MfaEnrollment): Promise<void> {
+    this.enrollments.set(enrollment.userId, {
+      ...enrollment,
+      recoveryCodeHashes: [...enrollment.recoveryCodeHashes],
+    });
+  }
+
+  async find(userId: string): Promise<MfaEnrollment | null> {
+    const enrollment = this.enrollments.get(userId);
+    return enrollment
+      ? { ...enrollment, recoveryCodeHashes: [...enrollment.recoveryCodeHashes] }
+      : null;
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.enrollments.delete(userId);
+  }
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const enrollment = this.enrollments.get(userId);
+    if (!enrollment || step <= enrollment.lastUsedStep) return false;
+
+    enrollment.lastUsedStep = step;
+    return true;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const enrollment = this.enrollments.get(userId);
+    const index = enrollment?.recoveryCodeHashes.indexOf(codeHash) ?? -1;
+    if (!enrollment || index === -1) return false;
+
+    enrollment.recoveryCodeHashes.splice(index, 1);
+    return true;
+  }
+}
+
+let mfaStore: MfaStore = new InMemoryMfaStore();
+
+/**
+ * Configure the store used for MFA enrollments (call once at startup)
+ */
+export function setMfaStore(store: MfaStore): void {
+  mfaStore = store;
+}
+
+export type MfaFailure = 'not_enrolled' | 'already_enrolled' | 'invalid_code';
+
+/**
+ * Thrown when an MFA step can't be completed
+ */
+export class MfaError extends Error {
+  constructor(public readonly reason: MfaFailure) {
+    super(`MFA failed: ${reason}`);
+    this.name = 'MfaError';
+  }
+}
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * The code for one time step (RFC 4226 HOTP with the step as counter)
+ */
+function hotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The TOTP code for a secret at a given time (what the app shows)
+ */
+export function generateTotp(secret: string, now = Date.now()): string {
+  return hotp(secret, currentStep(now));
+}
+
+/**
+ * The time step a code belongs to, or null if it matches none in the drift window
+ */
+function findTotpStep(secret: string, code: string, now = Date.now()): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) return null;
+
+  const step = currentStep(now);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const expected = hotp(secret, step + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step + drift;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI for authenticator apps (usually shown as a QR code)
+ */
+export function buildOtpauthUri(email: string, secret: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Codes are typed by hand: ignore case, spaces and dashes
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(5)); // 8 characters
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+/**
+ * Whether the user has confirmed MFA (and so must pass it to log in)
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const enrollment = await mfaStore.find(userId);
+  return enrollment !== null && enrollment.confirmedAt !== null;
+}
+
+/**
+ * Start (or restart) enrollment with a new secret
+ * MFA stays off until confirmMfaEnrollment succeeds
+ */
+export async function startMfaEnrollment(user: { id: string; email: string }): Promise<{
+  secret: string;
+  otpauthUri: string;
+}> {
+  if (await isMfaEnabled(user.id)) {
+    throw new MfaError('already_enrolled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20)); // 160 bits, as RFC 4226 recommends
+  await mfaStore.save({
+    userId: user.id,
+    secret,
+    confirmedAt: null,
+    recoveryCodeHashes: [],
+    lastUsedStep: 0,
+  });
+
+  return { secret, otpauthUri: buildOtpauthUri(user.email, secret) };
+}
+
+/**
+ * Switch MFA on with a code from the app
+ * Returns the recovery codes - the only time they are ever available
+ */
+export async function confirmMfaEnrollment(userId: string, code: string): Promise<string[]> {
+  const enrollment = await mfaStore.find(userId);
+  if (!enrollment) {
+    throw new MfaError('not_enrolled');
+  }
+  if (enrollment.confirmedAt !== null) {
+    throw new MfaError('already_enrolled');
+  }
+
+  const step = findTotpStep(enrollment.secret, code);
+  if (step === null || !(await mfaStore.useTotpStep(userId, step))) {
+    throw new MfaError('invalid_code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await mfaStore.save({
+    ...enrollment,
+    confirmedAt: Date.now(),
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP or recovery code for a user with MFA on
+ * Throws MfaError if it isn't valid (or was already used)
+ */
+export async function verifyMfaCode(
+  userId: string,
+  code: string
+): Promise<'totp' | 'recovery_code'> {
+  const enrollment = await mfaStore.find(userId);
+  if (!enrollment || enrollment.confirmedAt === null) {
+    throw new MfaError('not_enrolled');
+  }
+
+  const step = findTotpStep(enrollment.secret, code);
+  if (step !== null) {
+    if (await mfaStore.useTotpStep(userId, step)) return 'totp';
+    throw new MfaError('invalid_code');
+  }
+
+  if (await mfaStore.useRecoveryCode(userId, hashRecoveryCode(code))) {
+    return 'recovery_code';
+  }
+  throw new MfaError('invalid_code');
+}
+
+/**
+ * Switch MFA off - requires a current code, so a stolen session can't
+ */
+export async function disableMfa(userId: string, code: string): Promise<void> {
+  await verifyMfaCode(userId, code);
+  await mfaStore.delete(userId);
+}
+
+/**
+ * Usage example:
+ *
+ * // POST /api/auth/mfa/enroll - show otpauthUri as a QR code
+ * const { otpauthUri } = await startMfaEnrollment(req.user);
+ *
+ * // POST /api/auth/mfa/confirm { code } - show the recovery codes once
+ * const recoveryCodes = await confirmMfaEnrollment(req.user.id, code);
+ *
+ * // During login, after the password
+ * if (await isMfaEnabled(user.id)) {
+ *   await verifyMfaCode(user.id, code); // TOTP or recovery code
+ * }
+ */
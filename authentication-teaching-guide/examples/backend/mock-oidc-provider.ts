@@ -0,0 +1,183 @@
+/**
+ * Mock OpenID Connect Provider
+ *
+ * This example is a tiny identity provider for trying and testing
+ * oidc.ts without Google, Microsoft or a network connection:
+ * - GET  /.well-known/openid-configuration - discovery
+ * - GET  /jwks                             - the ID token signing key
+ * - GET  /authorize - no login page: approves at once as the user named
+ *   by `login_hint` (sub or email), or the first user
+ * - POST /token     - checks the code, client, redirect URI and PKCE
+ *   verifier, and returns a signed RS256 ID token
+ *
+ * `claimOverrides` changes the next ID tokens (wrong nonce, audience,
+ * issuer, ...) to check the relying party rejects them.
+ *
+ * Never deploy this - anyone can log in as anyone.
+ */
+
+import crypto from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface MockOidcProviderOptions {
+  clientId: string;
+  clientSecret?: string;
+  users: MockOidcUser[];
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  /** Claims merged into every ID token issued from now on */
+  claimOverrides: Record<string, unknown>;
+  close(): Promise<void>;
+}
+
+interface IssuedCode {
+  user: MockOidcUser;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+/**
+ * Start the provider on a random local port
+ */
+export async function startMockOidcProvider(
+  options: MockOidcProviderOptions
+): Promise<MockOidcProvider> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const codes = new Map<string, IssuedCode>();
+
+  const app = express();
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const provider: MockOidcProvider = {
+    issuer,
+    claimOverrides: {},
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+
+  app.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+
+  app.get('/jwks', (_req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+  });
+
+  app.get('/authorize', (req: Request, res: Response) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } =
+      req.query as Record<string, string | undefined>;
+    if (client_id !== options.clientId || !redirect_uri) {
+      return res.status(400).send('Unknown client');
+    }
+
+    const callback = new URL(redirect_uri);
+    if (state) callback.searchParams.set('state', state);
+
+    const hint = req.query.login_hint;
+    const user = hint
+      ? options.users.find((candidate) => candidate.sub === hint || candidate.email === hint)
+      : options.users[0];
+    if (!user || !code_challenge || code_challenge_method !== 'S256') {
+      callback.searchParams.set('error', user ? 'invalid_request' : 'access_denied');
+      return res.redirect(callback.toString());
+    }
+
+    const code = crypto.randomBytes(16).toString('base64url');
+    codes.set(code, { user, redirectUri: redirect_uri, nonce, codeChallenge: code_challenge });
+    callback.searchParams.set('code', code);
+    res.redirect(callback.toString());
+  });
+
+  app.post('/token', express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body;
+
+    const wrongSecret = options.clientSecret && client_secret !== options.clientSecret;
+    if (client_id !== options.clientId || wrongSecret) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    if (grant_type !== 'authorization_code') {
+      return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+
+    const issued = codes.get(code);
+    codes.delete(code); // Single use
+    const challenge = crypto.createHash('sha256').update(String(code_verifier)).digest('base64url');
+    if (!issued || issued.redirectUri !== redirect_uri || issued.codeChallenge !== challenge) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: options.clientId,
+        ...issued.user,
+        nonce: issued.nonce,
+        iat: now,
+        exp: now + ID_TOKEN_TTL_SECONDS,
+        ...provider.claimOverrides,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid }
+    );
+
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      access_token: crypto.randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    });
+  });
+
+  return provider;
+}
+
+/**
+ * Usage example:
+ *
+ * const idp = await startMockOidcProvider({
+ *   clientId: 'local-app',
+ *   users: [{ sub: 'user-1', email: 'ada@example.com', email_verified: true }],
+ * });
+ *
+ * setOidcProviders({
+ *   mock: {
+ *     issuer: idp.issuer,
+ *     clientId: 'local-app',
+ *     redirectUri: 'http://localhost:3000/api/auth/oidc/mock/callback',
+ *   },
+ * });
+ *
+ * // Open http://localhost:3000/api/auth/oidc/mock/start - and you're Ada
+ *
+ * idp.claimOverrides = { aud: 'someone-else' }; // Next logins must fail
+ * await idp.close();
+ */
@@ -0,0 +1,157 @@
+/**
+ * OAuth 2.0 Local Client
+ *
+ * This example runs the whole authorization code + PKCE flow against a
+ * local server, the way a real client would, so the OAuth routes can be
+ * tried without a browser or a deployed app:
+ * 1. Start the auth and OAuth routes on a random local port
+ * 2. Create a verified user and register a public client
+ * 3. Log in, open /oauth/authorize, approve the consent screen
+ * 4. Exchange the code (with the PKCE verifier) for tokens
+ * 5. Call an API with the access token, then use the refresh token
+ *
+ * Run: npx ts-node backend/oauth-local-client.ts
+ */
+
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import authRoutes from './auth-routes';
+import oauthRoutes from './oauth-routes';
+import { registerClient } from './oauth-server';
+import { getUserRepository } from './user-repository';
+import { hashPassword } from './password-hashing';
+
+const credentials = { email: 'oauth-demo@example.com', password: 'local demo password' };
+
+function step(message: string, details?: unknown) {
+  console.log(`\n> ${message}`);
+  if (details !== undefined) console.log(details);
+}
+
+/**
+ * Follow nothing: the client wants to read each redirect itself
+ */
+async function request(url: string, init: RequestInit = {}) {
+  return fetch(url, { ...init, redirect: 'manual' });
+}
+
+export async function runLocalOAuthFlow(): Promise<void> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use('/oauth', oauthRoutes);
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const redirectUri = 'http://127.0.0.1:8765/callback'; // never called - we read the redirect
+
+  try {
+    // 1. A verified user, and a public client (no secret, so PKCE is its only proof)
+    const user = await getUserRepository().create({
+      email: credentials.email,
+      passwordHash: await hashPassword(credentials.password),
+    });
+    await getUserRepository().update(user.id, { emailVerifiedAt: Date.now() });
+
+    const { client } = await registerClient({
+      clientName: 'Local Demo App',
+      redirectUris: [redirectUri],
+      scopes: ['profile:read', 'posts:read'],
+    });
+    step('Registered client', { clientId: client.clientId, redirectUri });
+
+    // 2. The user's own login session at the authorization server
+    const login = await request(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials),
+    });
+    const { accessToken: sessionToken } = await login.json();
+    step('Logged in at the authorization server');
+
+    // 3. PKCE: keep the verifier, send only its hash
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const state = crypto.randomBytes(16).toString('base64url');
+
+    const authorizeParams = new URLSearchParams({
+      response_type: 'code',
+      client_id: client.clientId,
+      redirect_uri: redirectUri,
+      scope: 'profile:read',
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+    const consentScreen = await request(`${baseUrl}/oauth/authorize?${authorizeParams}`, {
+      headers: { Authorization: `Bearer ${sessionToken}` },
+    });
+    step(`GET /oauth/authorize -> ${consentScreen.status} (consent screen)`);
+
+    // 4. "Click" Allow
+    const consent = await request(`${baseUrl}/oauth/authorize`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${sessionToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ ...Object.fromEntries(authorizeParams), decision: 'approve' }),
+    });
+    const callback = new URL(consent.headers.get('location')!);
+    step(`POST /oauth/authorize -> ${consent.status}`, callback.toString());
+
+    // 5. The client checks `state` before trusting the code
+    if (callback.searchParams.get('state') !== state) {
+      throw new Error('State mismatch - possible CSRF');
+    }
+
+    const tokenResponse = await request(`${baseUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: callback.searchParams.get('code')!,
+        redirect_uri: redirectUri,
+        client_id: client.clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+    const tokens = await tokenResponse.json();
+    step(`POST /oauth/token (authorization_code) -> ${tokenResponse.status}`, {
+      token_type: tokens.token_type,
+      expires_in: tokens.expires_in,
+      scope: tokens.scope,
+    });
+
+    // 6. Use the access token, then refresh it
+    const me = await request(`${baseUrl}/api/auth/me`, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    step(`GET /api/auth/me -> ${me.status}`, await me.json());
+
+    const refreshed = await request(`${baseUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: tokens.refresh_token,
+        client_id: client.clientId,
+      }),
+    });
+    step(`POST /oauth/token (refresh_token) -> ${refreshed.status}`, {
+      scope: (await refreshed.json()).scope,
+    });
+  } finally {
+    server.close();
+  }
+}
+
+if (require.main === module) {
+  process.env.BCRYPT_COST = process.env.BCRYPT_COST || '4'; // Fast hashing for the demo
+
+  runLocalOAuthFlow().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
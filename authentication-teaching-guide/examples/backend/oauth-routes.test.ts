@@ -0,0 +1,409 @@
+/**
+ * Tests: OAuth 2.0 Authorization Code Flow with PKCE
+ *
+ * Codes must only reach registered redirect URIs, work once, and only
+ * for the client holding the PKCE verifier. Tokens must be limited to
+ * the consented scopes.
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import authRoutes from './auth-routes';
+import oauthRoutes from './oauth-routes';
+import {
+  InMemoryAuthorizationCodeStore,
+  InMemoryConsentStore,
+  InMemoryOAuthClientStore,
+  isAllowedRedirectUri,
+  OAuthClient,
+  registerClient,
+  setOAuthStores,
+} from './oauth-server';
+import { InMemoryUserRepository, getUserRepository, setUserRepository } from './user-repository';
+import { InMemoryCounterStore, setCounterStore } from './rate-limit';
+import { generateAccessToken } from './token-utils';
+import { hashPassword } from './password-hashing';
+
+process.env.BCRYPT_COST = '4'; // Fast hashing for tests
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/oauth', oauthRoutes);
+
+const redirectUri = 'https://app.example.com/callback';
+const codeVerifier = crypto.randomBytes(32).toString('base64url');
+const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+let client: OAuthClient;
+let userId: string;
+let sessionToken: string;
+
+beforeEach(async () => {
+  setUserRepository(new InMemoryUserRepository());
+  setCounterStore(new InMemoryCounterStore());
+  setOAuthStores({
+    clients: new InMemoryOAuthClientStore(),
+    codes: new InMemoryAuthorizationCodeStore(),
+    consents: new InMemoryConsentStore(),
+  });
+
+  const user = await getUserRepository().create({
+    email: 'ada@example.com',
+    passwordHash: await hashPassword('correct horse battery'),
+  });
+  await getUserRepository().update(user.id, { emailVerifiedAt: Date.now() });
+  userId = user.id;
+  sessionToken = generateAccessToken(user);
+
+  ({ client } = await registerClient({
+    clientName: 'Third Party App',
+    redirectUris: [redirectUri],
+    scopes: ['profile:read', 'posts:read', 'posts:write'],
+  }));
+});
+
+function authorizeParams(overrides: Record<string, string> = {}) {
+  return {
+    response_type: 'code',
+    client_id: client.clientId,
+    redirect_uri: redirectUri,
+    scope: 'profile:read',
+    state: 'xyz',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...overrides,
+  };
+}
+
+/**
+ * Approve the consent screen; returns the redirect back to the client
+ */
+async function approve(overrides: Record<string, string> = {}) {
+  const response = await request(app)
+    .post('/oauth/authorize')
+    .set('Authorization', `Bearer ${sessionToken}`)
+    .type('form')
+    .send({ ...authorizeParams(overrides), decision: 'approve' });
+  return new URL(response.headers.location);
+}
+
+async function exchange(code: string, overrides: Record<string, string> = {}) {
+  return request(app)
+    .post('/oauth/token')
+    .type('form')
+    .send({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: client.clientId,
+      code_verifier: codeVerifier,
+      ...overrides,
+    });
+}
+
+describe('redirect URI validation', () => {
+  test.each([
+    ['https://app.example.com/callback', true],
+    ['http://127.0.0.1:8765/callback', true],
+    ['com.example.app:/callback', true],
+    ['http://app.example.com/callback', false],
+    ['https://app.example.com/callback#fragment', false],
+    ['javascript:alert(1)', false],
+  ])('%s allowed: %s', (uri, allowed) => {
+    expect(isAllowedRedirectUri(uri)).toBe(allowed);
+  });
+
+  test('shows an error instead of redirecting to an unregistered URI', async () => {
+    const response = await request(app)
+      .get('/oauth/authorize')
+      .query(authorizeParams({ redirect_uri: 'https://evil.example.com/callback' }))
+      .set('Authorization', `Bearer ${sessionToken}`);
+
+    expect(response.status).toBe(400);
+    expect(response.headers.location).toBeUndefined();
+  });
+
+  test('sends users without a session to the login page', async () => {
+    const response = await request(app).get('/oauth/authorize').query(authorizeParams());
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toMatch(/^\/login\?returnTo=%2Foauth%2Fauthorize/);
+  });
+
+  test('requires PKCE', async () => {
+    const response = await request(app)
+      .get('/oauth/authorize')
+      .query(authorizeParams({ code_challenge_method: 'plain' }))
+      .set('Authorization', `Bearer ${sessionToken}`);
+
+    const location = new URL(response.headers.location);
+    expect(location.searchParams.get('error')).toBe('invalid_request');
+    expect(location.searchParams.get('state')).toBe('xyz');
+  });
+});
+
+describe('GET /oauth/authorize', () => {
+  test('shows the consent screen the first time', async () => {
+    const response = await request(app)
+      .get('/oauth/authorize')
+      .query(authorizeParams())
+      .set('Authorization', `Bearer ${sessionToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-frame-options']).toBe('DENY');
+    expect(response.text).toContain('Third Party App wants to access your account');
+  });
+
+  test('skips consent once the scopes were approved', async () => {
+    await approve();
+
+    const response = await request(app)
+      .get('/oauth/authorize')
+      .query(authorizeParams())
+      .set('Authorization', `Bearer ${sessionToken}`);
+
+    const location = new URL(response.headers.location);
+    expect(location.origin + location.pathname).toBe(redirectUri);
+    expect(location.searchParams.get('code')).toEqual(expect.any(String));
+  });
+
+  test('denying sends access_denied back with the state', async () => {
+    const response = await request(app)
+      .post('/oauth/authorize')
+      .set('Authorization', `Bearer ${sessionToken}`)
+      .type('form')
+      .send({ ...authorizeParams(), decision: 'deny' });
+
+    const location = new URL(response.headers.location);
+    expect(location.searchParams.get('error')).toBe('access_denied');
+    expect(location.searchParams.get('state')).toBe('xyz');
+  });
+
+  test('a token issued to a client cannot authorize other clients', async () => {
+    const callback = await approve();
+    const tokens = await exchange(callback.searchParams.get('code')!);
+
+    const response = await request(app)
+      .get('/oauth/authorize')
+      .query(authorizeParams())
+      .set('Authorization', `Bearer ${tokens.body.access_token}`);
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('POST /oauth/token', () => {
+  test('exchanges a code and verifier for scoped tokens', async () => {
+    const callback = await approve();
+
+    const response = await exchange(callback.searchParams.get('code')!);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['cache-control']).toBe('no-store');
+    expect(response.body).toMatchObject({ token_type: 'Bearer', scope: 'profile:read' });
+
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${response.body.access_token}`);
+    expect(me.body.user).toMatchObject({ id: userId, scopes: ['profile:read'] });
+  });
+
+  test('only grants scopes the user has', async () => {
+    const callback = await approve({ scope: 'profile:read posts:write' });
+
+    const response = await exchange(callback.searchParams.get('code')!);
+
+    expect(response.body.scope).toBe('profile:read');
+  });
+
+  test('rejects a wrong PKCE verifier', async () => {
+    const callback = await approve();
+
+    const response = await exchange(callback.searchParams.get('code')!, {
+      code_verifier: crypto.randomBytes(32).toString('base64url'),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('invalid_grant');
+  });
+
+  test('accepts a code only once', async () => {
+    const callback = await approve();
+    const code = callback.searchParams.get('code')!;
+
+    await exchange(code);
+    const second = await exchange(code);
+
+    expect(second.status).toBe(400);
+    expect(second.body.error).toBe('invalid_grant');
+  });
+
+  test('rejects a code issued to another client', async () => {
+    const callback = await approve();
+    const { client: other } = await registerClient({
+      clientName: 'Other App',
+      redirectUris: [redirectUri],
+      scopes: ['profile:read'],
+    });
+
+    const response = await exchange(callback.searchParams.get('code')!, {
+      client_id: other.clientId,
+    });
+
+    expect(response.body.error).toBe('invalid_grant');
+  });
+
+  test('refreshes with the same scopes, for the same client only', async () => {
+    const callback = await approve();
+    const tokens = await exchange(callback.searchParams.get('code')!);
+
+    const refreshed = await request(app)
+      .post('/oauth/token')
+      .type('form')
+      .send({
+        grant_type: 'refresh_token',
+        refresh_token: tokens.body.refresh_token,
+        client_id: client.clientId,
+      });
+    const firstParty = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: refreshed.body.refresh_token });
+
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.scope).toBe('profile:read');
+    expect(firstParty.status).toBe(401);
+  });
+
+  test('rejects a refresh token revoked by log out everywhere', async () => {
+    const callback = await approve();
+    const tokens = await exchange(callback.searchParams.get('code')!);
+    await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${sessionToken}`);
+
+    const refreshed = await request(app)
+      .post('/oauth/token')
+      .type('form')
+      .send({
+        grant_type: 'refresh_token',
+        refresh_token: tokens.body.refresh_token,
+        client_id: client.clientId,
+      });
+
+    expect(refreshed.status).toBe(400);
+    expect(refreshed.body.error).toBe('invalid_grant');
+  });
+
+  test('client tokens cannot manage the account', async () => {
+    const callback = await approve();
+    const tokens = await exchange(callback.searchParams.get('code')!);
+    const auth = `Bearer ${tokens.body.access_token}`;
+
+    const enroll = await request(app).post('/api/auth/mfa/enroll').set('Authorization', auth);
+    const sessions = await request(app).get('/api/auth/sessions').set('Authorization', auth);
+    const logoutAll = await request(app).post('/api/auth/logout-all').set('Authorization', auth);
+
+    expect(enroll.status).toBe(403);
+    expect(sessions.status).toBe(403);
+    expect(logoutAll.status).toBe(403);
+  });
+
+  test("client tokens don't carry an admin's role", async () => {
+    await getUserRepository().update(userId, { role: 'admin' });
+    const clientToken = generateAccessToken({
+      id: userId,
+      email: 'ada@example.com',
+      role: 'admin',
+      clientId: client.clientId,
+      scopes: ['profile:read'],
+    });
+    const auth = `Bearer ${clientToken}`;
+
+    const revoke = await request(app)
+      .post(`/api/auth/users/${userId}/revoke`)
+      .set('Authorization', auth);
+    const unlock = await request(app)
+      .post(`/api/auth/users/${userId}/unlock`)
+      .set('Authorization', auth);
+    const audit = await request(app).get('/api/auth/audit').set('Authorization', auth);
+
+    expect(revoke.status).toBe(403);
+    expect(unlock.status).toBe(403);
+    expect(audit.status).toBe(403);
+  });
+
+  test('requires the secret of a confidential client', async () => {
+    const { client: confidential, clientSecret } = await registerClient({
+      clientName: 'Server App',
+      redirectUris: [redirectUri],
+      scopes: ['profile:read'],
+      confidential: true,
+    });
+
+    const noSecret = await request(app)
+      .post('/oauth/token')
+      .type('form')
+      .send({ grant_type: 'authorization_code', client_id: confidential.clientId });
+    const withSecret = await request(app)
+      .post('/oauth/token')
+      .auth(confidential.clientId, clientSecret!)
+      .type('form')
+      .send({ grant_type: 'client_credentials' });
+
+    expect(noSecret.status).toBe(401);
+    expect(noSecret.body.error).toBe('invalid_client');
+    expect(withSecret.body.error).toBe('unsupported_grant_type');
+  });
+
+  test('rejects malformed Basic credentials as invalid_client', async () => {
+    const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+    const noSeparator = await request(app)
+      .post('/oauth/token')
+      .set('Authorization', basic('no-separator'))
+      .type('form')
+      .send({ grant_type: 'authorization_code' });
+    const badEncoding = await request(app)
+      .post('/oauth/token')
+      .set('Authorization', basic('%E0%A4%A:secret'))
+      .type('form')
+      .send({ grant_type: 'authorization_code' });
+
+    expect(noSeparator.status).toBe(401);
+    expect(noSeparator.body.error).toBe('invalid_client');
+    expect(badEncoding.status).toBe(401);
+    expect(badEncoding.body.error).toBe('invalid_client');
+  });
+});
+
+describe('POST /oauth/clients', () => {
+  test('lets admins register clients and rejects unsafe redirect URIs', async () => {
+    const admin = generateAccessToken({ id: 'admin-1', email: 'admin@example.com', role: 'admin' });
+
+    const created = await request(app)
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ client_name: 'SPA', redirect_uris: ['http://localhost:3000/callback'], scope: 'profile:read' });
+    const unsafe = await request(app)
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ client_name: 'SPA', redirect_uris: ['http://example.com/callback'], scope: 'profile:read' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.client_id).toMatch(/^client_/);
+    expect(created.body.client_secret).toBeUndefined();
+    expect(unsafe.status).toBe(400);
+    expect(unsafe.body.error).toBe('invalid_redirect_uri');
+  });
+
+  test('is admin only', async () => {
+    const response = await request(app)
+      .post('/oauth/clients')
+      .set('Authorization', `Bearer ${sessionToken}`)
+      .send({ client_name: 'SPA', redirect_uris: [redirectUri], scope: 'profile:read' });
+
+    expect(response.status).toBe(403);
+  });
+});
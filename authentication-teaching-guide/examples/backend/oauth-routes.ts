@@ -0,0 +1,544 @@
+/**
+ * Express OAuth 2.0 Routes
+ *
+ * This example shows the endpoints of an OAuth 2.0 authorization server,
+ * so SPAs and third-party apps log users in with a standard flow instead
+ * of posting passwords to /api/auth/login:
+ * - GET  /oauth/authorize - the browser lands here; logged-in users see a
+ *   consent screen, then go back to the client with a code
+ * - POST /oauth/authorize - the consent screen's Allow / Deny
+ * - POST /oauth/token     - authorization_code (with PKCE) and refresh_token grants
+ * - POST /oauth/clients   - register a client (admin only)
+ *
+ * Tokens are the same JWTs as /api/auth/login (token-utils.ts), with
+ * `client_id` and `scope` claims - the auth core turns `scope` into the
+ * only permissions the token has.
+ */
+
+import express, { NextFunction, Request, Response } from 'express';
+import { authenticateToken, requireRole, requireUserSession } from './auth-middleware';
+import { authCore } from './auth-core';
+import { verifyRefreshToken } from './token-utils';
+import {
+  consumeRefreshToken,
+  RefreshTokenReuseError,
+  RefreshTokenRevokedError,
+} from './refresh-token-store';
+import { getUserRepository } from './user-repository';
+import { getSessionStore, startSession } from './sessions';
+import {
+  authenticateClient,
+  createAuthorizationCode,
+  exchangeAuthorizationCode,
+  findClient,
+  needsConsent,
+  OAuthClient,
+  OAuthError,
+  recordConsent,
+  registerClient,
+  resolveRedirectUri,
+  resolveScopes,
+} from './oauth-server';
+import { getTokenLifetimes } from '../shared/token-policy';
+import { getMissingPermissions, getPermissions, isGranted } from '../shared/rbac';
+import { bearerHeader, cookie, fromNodeRequest } from '../shared/credential-extraction';
+
+const router = express.Router();
+
+const LOGIN_URL = process.env.LOGIN_URL || '/login';
+
+/**
+ * A validated authorization request
+ */
+interface AuthorizeRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  state?: string;
+  scope?: string;
+  codeChallenge: string;
+}
+
+function param(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Send the browser back to the client with query parameters
+ */
+function redirectToClient(
+  res: Response,
+  redirectUri: string,
+  params: Record<string, string | undefined>
+) {
+  const url = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(name, value);
+  }
+  return res.redirect(url.toString());
+}
+
+/**
+ * Validate the authorization request (query on GET, form on POST)
+ *
+ * Until the client and redirect URI are known to be valid, errors are
+ * shown here and NEVER redirected - otherwise anyone could use this
+ * server to bounce users to any URL. After that, errors go back to the
+ * client as `?error=...&state=...`.
+ */
+async function validateAuthorizeRequest(req: Request, res: Response, next: NextFunction) {
+  try {
+    const params = req.method === 'GET' ? req.query : req.body;
+
+    const client = await findClient(param(params.client_id) ?? '');
+    if (!client) {
+      return res.status(400).json({ error: 'invalid_client', error_description: 'Unknown client' });
+    }
+    const redirectUri = resolveRedirectUri(client, param(params.redirect_uri));
+    if (!redirectUri) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'redirect_uri is not registered for this client',
+      });
+    }
+
+    const state = param(params.state);
+    if (params.response_type !== 'code') {
+      return redirectToClient(res, redirectUri, {
+        error: 'unsupported_response_type',
+        state,
+      });
+    }
+    if (!param(params.code_challenge) || params.code_challenge_method !== 'S256') {
+      return redirectToClient(res, redirectUri, {
+        error: 'invalid_request',
+        error_description: 'PKCE with code_challenge_method=S256 is required',
+        state,
+      });
+    }
+
+    const authorizeRequest: AuthorizeRequest = {
+      client,
+      redirectUri,
+      state,
+      scope: param(params.scope),
+      codeChallenge: params.code_challenge,
+    };
+    res.locals.authorizeRequest = authorizeRequest;
+    next();
+  } catch (error) {
+    console.error('Authorize validation error:', error);
+    res.status(500).json({ error: 'server_error' });
+  }
+}
+
+/**
+ * Browsers without a session go to the login page, which sends them
+ * back here afterwards (an invalid token still gets a 401)
+ */
+function redirectToLogin(req: Request, res: Response, next: NextFunction) {
+  const source = fromNodeRequest(req);
+  if (bearerHeader()(source) || cookie()(source)) {
+    return next();
+  }
+  res.redirect(`${LOGIN_URL}?returnTo=${encodeURIComponent(req.originalUrl)}`);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Consent screen stub - replace with your own page
+ * Posts the (already validated) request back with the user's decision.
+ * The access token cookie is SameSite=strict, so another site can't
+ * submit this form as the user.
+ */
+function renderConsentScreen(res: Response, request: AuthorizeRequest, scopes: string[]) {
+  const hidden = {
+    response_type: 'code',
+    client_id: request.client.clientId,
+    redirect_uri: request.redirectUri,
+    scope: scopes.join(' '),
+    state: request.state,
+    code_challenge: request.codeChallenge,
+    code_challenge_method: 'S256',
+  };
+  const inputs = Object.entries(hidden)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value!)}">`)
+    .join('\n    ');
+  const items = scopes.map((scope) => `<li>${escapeHtml(scope)}</li>`).join('');
+
+  // Never inside another site's frame (clickjacking the Allow button)
+  res.set('X-Frame-Options', 'DENY');
+  res.set('Content-Security-Policy', "frame-ancestors 'none'");
+  res.set('Cache-Control', 'no-store');
+  res.type('html').send(`<!doctype html>
+<title>Authorize ${escapeHtml(request.client.clientName)}</title>
+<h1>${escapeHtml(request.client.clientName)} wants to access your account</h1>
+<ul>${items}</ul>
+<form method="post" action="authorize">
+    ${inputs}
+    <button name="decision" value="approve">Allow</button>
+    <button name="decision" value="deny">Deny</button>
+</form>`);
+}
+
+/**
+ * Send OAuth errors in the RFC 6749 shape
+ */
+function sendOAuthError(res: Response, error: OAuthError) {
+  const status = error.reason === 'invalid_client' ? 401 : 400;
+  return res.status(status).json({ error: error.reason, error_description: error.message });
+}
+
+/**
+ * GET /oauth/authorize
+ * Start the authorization code flow
+ */
+router.get(
+  '/authorize',
+  validateAuthorizeRequest,
+  redirectToLogin,
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    const request: AuthorizeRequest = res.locals.authorizeRequest;
+
+    try {
+      const scopes = resolveScopes(request.client, req.user!.role, request.scope);
+
+      // 1. Ask the user, unless they already approved these scopes
+      if (await needsConsent(req.user!.id, request.client, scopes)) {
+        return renderConsentScreen(res, request, scopes);
+      }
+
+      // 2. Redirect back with a code
+      const code = await createAuthorizationCode({
+        client: request.client,
+        userId: req.user!.id,
+        redirectUri: request.redirectUri,
+        scopes,
+        codeChallenge: request.codeChallenge,
+      });
+      redirectToClient(res, request.redirectUri, { code, state: request.state });
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return redirectToClient(res, request.redirectUri, {
+          error: error.reason,
+          error_description: error.message,
+          state: request.state,
+        });
+      }
+      console.error('Authorize error:', error);
+      res.status(500).json({ error: 'server_error' });
+    }
+  }
+);
+
+/**
+ * POST /oauth/authorize
+ * The user's answer on the consent screen
+ */
+router.post(
+  '/authorize',
+  express.urlencoded({ extended: false }),
+  validateAuthorizeRequest,
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    const request: AuthorizeRequest = res.locals.authorizeRequest;
+
+    try {
+      if (req.body.decision !== 'approve') {
+        return redirectToClient(res, request.redirectUri, {
+          error: 'access_denied',
+          state: request.state,
+        });
+      }
+
+      // Re-check the scopes - the form came from the browser
+      const scopes = resolveScopes(request.client, req.user!.role, request.scope);
+      await recordConsent(req.user!.id, request.client.clientId, scopes);
+
+      const code = await createAuthorizationCode({
+        client: request.client,
+        userId: req.user!.id,
+        redirectUri: request.redirectUri,
+        scopes,
+        codeChallenge: request.codeChallenge,
+      });
+      redirectToClient(res, request.redirectUri, { code, state: request.state });
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return redirectToClient(res, request.redirectUri, {
+          error: error.reason,
+          error_description: error.message,
+          state: request.state,
+        });
+      }
+      console.error('Consent error:', error);
+      res.status(500).json({ error: 'server_error' });
+    }
+  }
+);
+
+/**
+ * Identify the client on the token endpoint:
+ * HTTP Basic (client_secret_basic), or client_id (+ client_secret) in the form
+ */
+async function authenticateTokenClient(req: Request): Promise<OAuthClient> {
+  let clientId = param(req.body.client_id);
+  let clientSecret = param(req.body.client_secret);
+
+  const basic = req.headers.authorization?.match(/^Basic\s+(\S+)$/i);
+  if (basic) {
+    const decoded = Buffer.from(basic[1], 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      throw new OAuthError('invalid_client', 'Client authentication failed');
+    }
+    // Both halves are form-encoded (RFC 6749 section 2.3.1)
+    try {
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    } catch {
+      throw new OAuthError('invalid_client', 'Client authentication failed');
+    }
+  }
+
+  const client = clientId ? await findClient(clientId) : null;
+  if (!client || !authenticateClient(client, clientSecret)) {
+    throw new OAuthError('invalid_client', 'Client authentication failed');
+  }
+  return client;
+}
+
+/**
+ * POST /oauth/token
+ * Exchange a code (or a refresh token) for tokens
+ */
+router.post(
+  '/token',
+  express.urlencoded({ extended: false }),
+  async (req: Request, res: Response) => {
+    // Responses contain tokens - never cache them
+    res.set('Cache-Control', 'no-store');
+    res.set('Pragma', 'no-cache');
+
+    try {
+      const client = await authenticateTokenClient(req);
+      const grantType = req.body.grant_type;
+
+      if (grantType === 'authorization_code') {
+        return res.json(await authorizationCodeGrant(req, client));
+      }
+      if (grantType === 'refresh_token') {
+        return res.json(await refreshTokenGrant(req, client));
+      }
+      throw new OAuthError('unsupported_grant_type', 'Use authorization_code or refresh_token');
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        if (error.reason === 'invalid_client' && req.headers.authorization) {
+          res.set('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+        return sendOAuthError(res, error);
+      }
+      if (error instanceof RefreshTokenReuseError) {
+        console.warn('Refresh token reuse, family revoked:', error.familyId);
+        await getSessionStore().revoke(error.familyId, Date.now());
+        return sendOAuthError(res, new OAuthError('invalid_grant', 'Refresh token reuse detected'));
+      }
+      if (error instanceof RefreshTokenRevokedError) {
+        return sendOAuthError(res, new OAuthError('invalid_grant', 'Refresh token was revoked'));
+      }
+      console.error('Token endpoint error:', error);
+      res.status(500).json({ error: 'server_error' });
+    }
+  }
+);
+
+async function authorizationCodeGrant(req: Request, client: OAuthClient) {
+  const code = param(req.body.code);
+  const codeVerifier = param(req.body.code_verifier);
+  const redirectUri = resolveRedirectUri(client, param(req.body.redirect_uri));
+  if (!code || !codeVerifier || !redirectUri) {
+    throw new OAuthError('invalid_request', 'code, code_verifier and redirect_uri are required');
+  }
+
+  // 1. Use up the code (checks client, redirect URI and PKCE)
+  const { userId, scopes } = await exchangeAuthorizationCode({
+    code,
+    client,
+    redirectUri,
+    codeVerifier,
+  });
+
+  const user = await getUserRepository().findById(userId);
+  if (!user) {
+    throw new OAuthError('invalid_grant', 'User no longer exists');
+  }
+
+  // 2. Each authorization is a session the user can see and revoke
+  const session = await startSession(user, {
+    deviceName: client.clientName,
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+  });
+  const tokens = await authCore.issueTokens(
+    { ...user, clientId: client.clientId, scopes },
+    session
+  );
+
+  return tokenResponse(tokens, user.role, scopes);
+}
+
+async function refreshTokenGrant(req: Request, client: OAuthClient) {
+  const refreshToken = param(req.body.refresh_token);
+  if (!refreshToken) {
+    throw new OAuthError('invalid_request', 'refresh_token is required');
+  }
+
+  // 1. Verify the token and that it was issued to this client
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch {
+    throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired');
+  }
+  if (decoded.client_id !== client.clientId) {
+    throw new OAuthError('invalid_grant', 'Refresh token was issued to another client');
+  }
+
+  // 2. Use it up - replaying a rotated one revokes its family
+  await consumeRefreshToken(decoded);
+
+  const user = await getUserRepository().findById(decoded.sub);
+  if (!user || user.tokenVersion !== decoded.tokenVersion) {
+    throw new OAuthError('invalid_grant', 'Refresh token was revoked');
+  }
+
+  // 3. Keep the granted scopes, minus any the user's role has lost since
+  const permissions = getPermissions(user.role);
+  const scopes = (decoded.scope ?? '')
+    .split(' ')
+    .filter((scope) => scope && isGranted(permissions, scope));
+  if (scopes.length === 0) {
+    throw new OAuthError('invalid_grant', 'No granted scopes remain');
+  }
+
+  await getSessionStore().touch(decoded.familyId, Date.now());
+  const tokens = await authCore.issueTokens(
+    { ...user, clientId: client.clientId, scopes },
+    { familyId: decoded.familyId, authTime: decoded.authTime }
+  );
+
+  return tokenResponse(tokens, user.role, scopes);
+}
+
+/**
+ * Token response (RFC 6749 section 5.1)
+ */
+function tokenResponse(
+  tokens: { accessToken: string; refreshToken: string },
+  role: string,
+  scopes: string[]
+) {
+  return {
+    access_token: tokens.accessToken,
+    token_type: 'Bearer',
+    expires_in: getTokenLifetimes(role).accessTokenTtl,
+    refresh_token: tokens.refreshToken,
+    scope: scopes.join(' '),
+  };
+}
+
+/**
+ * POST /oauth/clients
+ * Register a client (admin only), with RFC 7591 field names:
+ * { client_name, redirect_uris, scope, token_endpoint_auth_method?, first_party? }
+ */
+router.post(
+  '/clients',
+  authenticateToken,
+  requireUserSession,
+  requireRole('admin'),
+  express.json(),
+  async (req: Request, res: Response) => {
+    try {
+      const {
+        client_name: clientName,
+        redirect_uris: redirectUris,
+        scope,
+        token_endpoint_auth_method: authMethod = 'none',
+        first_party: firstParty = false,
+      } = req.body;
+
+      // 1. Validate input
+      if (typeof clientName !== 'string' || !clientName.trim()) {
+        throw new OAuthError('invalid_client_metadata', 'client_name is required');
+      }
+      if (!Array.isArray(redirectUris) || !redirectUris.every((uri) => typeof uri === 'string')) {
+        throw new OAuthError('invalid_redirect_uri', 'redirect_uris must be an array of URLs');
+      }
+      if (typeof scope !== 'string') {
+        throw new OAuthError('invalid_client_metadata', 'scope is required');
+      }
+      if (!['none', 'client_secret_basic', 'client_secret_post'].includes(authMethod)) {
+        throw new OAuthError('invalid_client_metadata', 'Unsupported token_endpoint_auth_method');
+      }
+
+      // 2. A client can't be allowed more than the admin registering it has
+      const scopes = scope.split(' ').filter(Boolean);
+      const missingPermissions = getMissingPermissions(req.user!.role, scopes);
+      if (missingPermissions.length > 0) {
+        throw new OAuthError(
+          'invalid_client_metadata',
+          `Scopes not allowed: ${missingPermissions.join(' ')}`
+        );
+      }
+
+      // 3. Register
+      const { client, clientSecret } = await registerClient({
+        clientName: clientName.trim(),
+        redirectUris,
+        scopes,
+        confidential: authMethod !== 'none',
+        firstParty: firstParty === true,
+      });
+
+      // The secret is only in this response
+      res.set('Cache-Control', 'no-store');
+      res.status(201).json({
+        client_id: client.clientId,
+        client_secret: clientSecret,
+        client_name: client.clientName,
+        redirect_uris: client.redirectUris,
+        scope: client.scopes.join(' '),
+        token_endpoint_auth_method: authMethod,
+      });
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return sendOAuthError(res, error);
+      }
+      console.error('Client registration error:', error);
+      res.status(500).json({ error: 'server_error' });
+    }
+  }
+);
+
+export default router;
+
+/**
+ * Usage in main app:
+ *
+ * import oauthRoutes from './routes/oauth';
+ * app.use('/oauth', oauthRoutes);
+ *
+ * // Try the whole flow locally: npx ts-node backend/oauth-local-client.ts
+ */
@@ -0,0 +1,368 @@
+/**
+ * OAuth 2.0 Authorization Server
+ *
+ * This example shows what sits behind /oauth/authorize and /oauth/token
+ * (authorization code grant, RFC 6749, with PKCE, RFC 7636), so apps
+ * never see a user's password:
+ * - Registered clients, each with exact redirect URIs
+ * - Authorization codes: random, stored as SHA-256 hashes, valid for a
+ *   minute, usable once, and bound to the client, redirect URI, user,
+ *   scopes and PKCE challenge
+ * - Consent remembered per user and client, so the consent screen is
+ *   only shown for new scopes
+ *
+ * PKCE (S256) is required for every client, as OAuth 2.1 does. Public
+ * clients (SPAs, mobile apps) have no secret - PKCE is what stops a
+ * stolen code being exchanged by someone else.
+ *
+ * Scopes are permission strings from shared/rbac.ts. A client is
+ * granted the intersection of what it asked for, what it is registered
+ * for and what the user's role allows.
+ */
+
+import crypto from 'crypto';
+import { getPermissions, isGranted } from '../shared/rbac';
+
+const AUTHORIZATION_CODE_TTL_MS = 60 * 1000;
+const CLIENT_ID_PREFIX = 'client_';
+
+export interface OAuthClient {
+  clientId: string;
+  clientName: string;
+  redirectUris: string[];
+  clientSecretHash: string | null; // null for public clients (no secret)
+  scopes: string[]; // The most this client can ever be granted
+  firstParty: boolean; // Our own apps skip the consent screen
+  createdAt: number; // ms since epoch
+}
+
+export interface AuthorizationCode {
+  codeHash: string;
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  expiresAt: number; // ms since epoch
+}
+
+/**
+ * Storage backends - implement these for your database (Postgres, Redis, ...)
+ */
+export interface OAuthClientStore {
+  save(client: OAuthClient): Promise<void>;
+  find(clientId: string): Promise<OAuthClient | null>;
+}
+
+export interface AuthorizationCodeStore {
+  save(code: AuthorizationCode): Promise<void>;
+  /** Remove and return the code (atomic - a code works once) */
+  consume(codeHash: string): Promise<AuthorizationCode | null>;
+}
+
+export interface ConsentStore {
+  /** Scopes the user already approved for the client */
+  find(userId: string, clientId: string): Promise<string[]>;
+  save(userId: string, clientId: string, scopes: string[]): Promise<void>;
+}
+
+/**
+ * In-memory stores (single process - good for development)
+ */
+export class InMemoryOAuthClientStore implements OAuthClientStore {
+  private clients = new Map<string, OAuthClient>();
+
+  async save(client: OAuthClient): Promise<void> {
+    this.clients.set(client.clientId, { ...client });
+  }
+
+  async find(clientId: string): Promise<OAuthClient | null> {
+    const client = this.clients.get(clientId);
+    return client ? { ...client } : null;
+  }
+}
+
+export class InMemoryAuthorizationCodeStore implements AuthorizationCodeStore {
+  private codes = new Map<string, AuthorizationCode>();
+
+  async save(code: AuthorizationCode): Promise<void> {
+    this.codes.set(code.codeHash, { ...code });
+  }
+
+  async consume(codeHash: string): Promise<AuthorizationCode | null> {
+    const code = this.codes.get(codeHash);
+    this.codes.delete(codeHash);
+    return code ?? null;
+  }
+}
+
+export class InMemoryConsentStore implements ConsentStore {
+  private consents = new Map<string, string[]>();
+
+  async find(userId: string, clientId: string): Promise<string[]> {
+    return [...(this.consents.get(`${userId}:${clientId}`) ?? [])];
+  }
+
+  async save(userId: string, clientId: string, scopes: string[]): Promise<void> {
+    this.consents.set(`${userId}:${clientId}`, [...scopes]);
+  }
+}
+
+let clientStore: OAuthClientStore = new InMemoryOAuthClientStore();
+let codeStore: AuthorizationCodeStore = new InMemoryAuthorizationCodeStore();
+let consentStore: ConsentStore = new InMemoryConsentStore();
+
+/**
+ * Configure the stores (call once at startup)
+ */
+export function setOAuthStores(stores: {
+  clients?: OAuthClientStore;
+  codes?: AuthorizationCodeStore;
+  consents?: ConsentStore;
+}): void {
+  clientStore = stores.clients ?? clientStore;
+  codeStore = stores.codes ?? codeStore;
+  consentStore = stores.consents ?? consentStore;
+}
+
+/**
+ * OAuth error codes (RFC 6749 section 4.1.2.1 and 5.2, RFC 7591)
+ */
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'access_denied'
+  | 'invalid_redirect_uri'
+  | 'invalid_client_metadata';
+
+/**
+ * Thrown when an OAuth request can't be completed
+ * `reason` is the error code sent to the client
+ */
+export class OAuthError extends Error {
+  constructor(public readonly reason: OAuthErrorCode, description: string) {
+    super(description);
+    this.name = 'OAuthError';
+  }
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+function timingSafeEqualStrings(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Redirect URIs a client may register:
+ * - https:// (web apps)
+ * - http:// on the loopback interface only (native apps and local development, RFC 8252)
+ * - private-use schemes like com.example.app:/callback (mobile apps)
+ * Never with a fragment - the code goes in the query string.
+ */
+export function isAllowedRedirectUri(uri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash) return false;
+
+  if (url.protocol === 'https:') return true;
+  if (url.protocol === 'http:') {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  }
+  // Reverse-domain schemes only, so `javascript:` and `data:` are out
+  return /^[a-z][a-z0-9+-]*(\.[a-z0-9+-]+)+:$/.test(url.protocol);
+}
+
+/**
+ * Register a client
+ * Confidential clients get a secret - returned here and nowhere else
+ */
+export async function registerClient(options: {
+  clientName: string;
+  redirectUris: string[];
+  scopes: string[];
+  confidential?: boolean;
+  firstParty?: boolean;
+}): Promise<{ client: OAuthClient; clientSecret?: string }> {
+  if (options.redirectUris.length === 0 || !options.redirectUris.every(isAllowedRedirectUri)) {
+    throw new OAuthError(
+      'invalid_redirect_uri',
+      'Redirect URIs must be https, loopback http or an app scheme'
+    );
+  }
+  if (options.scopes.length === 0) {
+    throw new OAuthError('invalid_client_metadata', 'At least one scope is required');
+  }
+
+  const clientSecret = options.confidential
+    ? crypto.randomBytes(32).toString('base64url')
+    : undefined;
+  const client: OAuthClient = {
+    clientId: CLIENT_ID_PREFIX + crypto.randomBytes(12).toString('hex'),
+    clientName: options.clientName,
+    redirectUris: [...options.redirectUris],
+    clientSecretHash: clientSecret ? sha256(clientSecret).toString('hex') : null,
+    scopes: [...options.scopes],
+    firstParty: options.firstParty ?? false,
+    createdAt: Date.now(),
+  };
+  await clientStore.save(client);
+
+  return { client, clientSecret };
+}
+
+export async function findClient(clientId: string): Promise<OAuthClient | null> {
+  return clientStore.find(clientId);
+}
+
+/**
+ * Check a client's secret (public clients must not send one)
+ */
+export function authenticateClient(client: OAuthClient, clientSecret?: string): boolean {
+  if (client.clientSecretHash === null) {
+    return clientSecret === undefined;
+  }
+  return clientSecret !== undefined
+    && timingSafeEqualStrings(sha256(clientSecret).toString('hex'), client.clientSecretHash);
+}
+
+/**
+ * The redirect URI to use, or null if it isn't registered
+ * Exact string match - no prefixes or wildcards, which are how open
+ * redirects steal codes. May be omitted if the client has only one.
+ */
+export function resolveRedirectUri(client: OAuthClient, redirectUri?: string): string | null {
+  if (redirectUri === undefined) {
+    return client.redirectUris.length === 1 ? client.redirectUris[0] : null;
+  }
+  return client.redirectUris.includes(redirectUri) ? redirectUri : null;
+}
+
+/**
+ * Scopes to grant: requested (or all the client's), that the client is
+ * registered for, filtered to what the user's role allows
+ */
+export function resolveScopes(client: OAuthClient, role: string, requested?: string): string[] {
+  const scopes = requested ? requested.split(' ').filter(Boolean) : client.scopes;
+  const unknown = scopes.filter((scope) => !client.scopes.includes(scope));
+  if (unknown.length > 0) {
+    throw new OAuthError('invalid_scope', `Client is not allowed: ${unknown.join(' ')}`);
+  }
+
+  const permissions = getPermissions(role);
+  const granted = scopes.filter((scope) => isGranted(permissions, scope));
+  if (granted.length === 0) {
+    throw new OAuthError('invalid_scope', 'None of the requested scopes can be granted');
+  }
+  return granted;
+}
+
+/**
+ * Whether the consent screen must be shown
+ */
+export async function needsConsent(
+  userId: string,
+  client: OAuthClient,
+  scopes: string[]
+): Promise<boolean> {
+  if (client.firstParty) return false;
+
+  const approved = await consentStore.find(userId, client.clientId);
+  return scopes.some((scope) => !approved.includes(scope));
+}
+
+/**
+ * Remember that the user approved these scopes for the client
+ */
+export async function recordConsent(
+  userId: string,
+  clientId: string,
+  scopes: string[]
+): Promise<void> {
+  const approved = await consentStore.find(userId, clientId);
+  await consentStore.save(userId, clientId, [...new Set([...approved, ...scopes])]);
+}
+
+/**
+ * Issue an authorization code for the redirect back to the client
+ */
+export async function createAuthorizationCode(options: {
+  client: OAuthClient;
+  userId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+}): Promise<string> {
+  const code = crypto.randomBytes(32).toString('base64url');
+
+  await codeStore.save({
+    codeHash: sha256(code).toString('hex'),
+    clientId: options.client.clientId,
+    userId: options.userId,
+    redirectUri: options.redirectUri,
+    scopes: options.scopes,
+    codeChallenge: options.codeChallenge,
+    expiresAt: Date.now() + AUTHORIZATION_CODE_TTL_MS,
+  });
+
+  return code;
+}
+
+/**
+ * PKCE S256: BASE64URL(SHA256(code_verifier)) must equal the challenge
+ */
+export function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
+  // 43-128 unreserved characters (RFC 7636 section 4.1)
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) return false;
+  return timingSafeEqualStrings(sha256(codeVerifier).toString('base64url'), codeChallenge);
+}
+
+/**
+ * Use up an authorization code
+ * Returns who it was issued for; throws OAuthError('invalid_grant') otherwise
+ */
+export async function exchangeAuthorizationCode(options: {
+  code: string;
+  client: OAuthClient;
+  redirectUri: string;
+  codeVerifier: string;
+}): Promise<{ userId: string; scopes: string[] }> {
+  // Consumed before any check, so a failed attempt burns the code too
+  const stored = await codeStore.consume(sha256(options.code).toString('hex'));
+
+  if (!stored || Date.now() >= stored.expiresAt) {
+    throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired');
+  }
+  if (stored.clientId !== options.client.clientId || stored.redirectUri !== options.redirectUri) {
+    throw new OAuthError('invalid_grant', 'Authorization code was issued for another client');
+  }
+  if (!verifyPkce(options.codeVerifier, stored.codeChallenge)) {
+    throw new OAuthError('invalid_grant', 'PKCE verification failed');
+  }
+
+  return { userId: stored.userId, scopes: stored.scopes };
+}
+
+/**
+ * Usage example (client side of PKCE):
+ *
+ * const codeVerifier = crypto.randomBytes(32).toString('base64url');
+ * const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+ *
+ * // 1. Send the user to
+ * //    /oauth/authorize?response_type=code&client_id=...&redirect_uri=...
+ * //      &scope=profile:read&state=...&code_challenge=...&code_challenge_method=S256
+ * // 2. On the redirect back, check `state`, then POST /oauth/token with
+ * //    grant_type=authorization_code, code, redirect_uri, client_id, code_verifier
+ */
@@ -0,0 +1,225 @@
+/**
+ * Express OpenID Connect Routes
+ *
+ * This example shows the endpoints for "Sign in with <provider>":
+ * - GET  /api/auth/oidc/:provider/start    - redirect to the provider
+ * - GET  /api/auth/oidc/:provider/callback - the provider sends the browser
+ *   back here; responds like /api/auth/login (tokens, or an MFA challenge)
+ * - POST /api/auth/oidc/:provider/link     - a logged-in user links an identity
+ * - GET  /api/auth/oidc/identities         - the current user's linked identities
+ *
+ * The protocol work (discovery, PKCE, ID token checks, account linking)
+ * lives in oidc.ts.
+ */
+
+import express, { CookieOptions, Request, Response } from 'express';
+import { authenticateToken, requireUserSession } from './auth-middleware';
+import { tokenResponse } from './auth-routes';
+import { completeOidcLogin, getLinkedIdentityStore, OidcError, startOidcLogin } from './oidc';
+import { isMfaEnabled } from './mfa';
+import { generateMfaChallengeToken } from './token-utils';
+import { tokenPolicy } from '../shared/token-policy';
+import { rateLimit } from './rate-limit';
+import { auditRequest } from './audit-log';
+import { cookie, fromNodeRequest } from '../shared/credential-extraction';
+
+const router = express.Router();
+
+const MINUTE = 60 * 1000;
+
+const OIDC_ERRORS: Record<string, string> = {
+  unknown_provider: 'Unknown login provider',
+  invalid_state: 'Login session expired or invalid - please try again',
+  provider_error: 'The login provider returned an error',
+  invalid_id_token: 'The login provider returned an invalid identity',
+  email_required: 'The login provider did not share an email address',
+  account_exists: 'An account with this email exists - log in with your password to link it',
+  email_not_verified: 'The login provider has not verified this email address',
+  already_linked: 'This identity is linked to another account',
+};
+
+const OIDC_STATUS: Record<string, number> = {
+  unknown_provider: 404,
+  account_exists: 409,
+  email_not_verified: 403,
+  already_linked: 409,
+};
+
+// The state also goes to the browser that starts the login; the callback
+// only works in that browser. Lax: the provider's redirect back is a
+// top-level GET from another site, which Strict would strip the cookie from
+const STATE_COOKIE = 'oidcState';
+const stateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/api/auth/oidc',
+};
+const STATE_COOKIE_MAX_AGE = 10 * MINUTE; // As long as the transaction
+
+function readStateCookie(req: Request): string | undefined {
+  const credential = cookie(STATE_COOKIE)(fromNodeRequest(req));
+  return credential?.kind === 'bearer' ? credential.token : undefined;
+}
+
+// Each start stores a transaction - don't let one client fill the store
+const startLimit = rateLimit({ name: 'oidc-start-ip', limit: 30, windowMs: 15 * MINUTE });
+
+function sendOidcError(res: Response, error: OidcError) {
+  return res.status(OIDC_STATUS[error.reason] ?? 400).json({
+    error: OIDC_ERRORS[error.reason],
+    reason: error.reason,
+  });
+}
+
+function query(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * GET /api/auth/oidc/:provider/start
+ * Send the browser to the provider's login page
+ */
+router.get('/:provider/start', startLimit, async (req: Request, res: Response) => {
+  try {
+    const { authorizationUrl, state } = await startOidcLogin(req.params.provider);
+    res.cookie(STATE_COOKIE, state, { ...stateCookieOptions, maxAge: STATE_COOKIE_MAX_AGE });
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return sendOidcError(res, error);
+    }
+    console.error('OIDC start error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/:provider/callback
+ * Finish the login (or link) and respond like /api/auth/login
+ */
+router.get('/:provider/callback', async (req: Request, res: Response) => {
+  try {
+    // 1. Check state, exchange the code, verify the ID token, find the user
+    const browserState = readStateCookie(req);
+    res.clearCookie(STATE_COOKIE, stateCookieOptions);
+    const user = await completeOidcLogin(req.params.provider, {
+      code: query(req.query.code),
+      state: query(req.query.state),
+      error: query(req.query.error),
+      browserState,
+    });
+
+    // 2. Same rules as a password login from here on
+    const details = { method: 'oidc', provider: req.params.provider };
+    if (user.emailVerifiedAt === null) {
+      await auditRequest(req, {
+        type: 'login_failed',
+        userId: user.id,
+        email: user.email,
+        reason: 'email_not_verified',
+        details,
+      });
+      return res.status(403).json({
+        error: 'Email not verified',
+        code: 'email_not_verified',
+      });
+    }
+    // The provider replaces the password, not the second factor
+    if (await isMfaEnabled(user.id)) {
+      await auditRequest(req, { type: 'mfa_challenge_issued', userId: user.id, details });
+      return res.json({
+        mfaRequired: true,
+        mfaToken: generateMfaChallengeToken(user),
+        expiresIn: tokenPolicy.mfaChallengeTokenTtl,
+      });
+    }
+
+    // 3. The usual token pair
+    await auditRequest(req, {
+      type: 'login_succeeded',
+      userId: user.id,
+      email: user.email,
+      details,
+    });
+    res.json(await tokenResponse(user, req));
+  } catch (error) {
+    if (error instanceof OidcError) {
+      await auditRequest(req, {
+        type: 'login_failed',
+        reason: error.reason,
+        details: { method: 'oidc', provider: req.params.provider },
+      });
+      return sendOidcError(res, error);
+    }
+    console.error('OIDC callback error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/oidc/:provider/link
+ * Start linking a provider identity to the current user
+ * (the client sends the browser to authorizationUrl)
+ */
+router.post(
+  '/:provider/link',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      const { authorizationUrl, state } = await startOidcLogin(req.params.provider, {
+        linkUserId: req.user!.id,
+      });
+      // Only this browser can finish the link - a link URL sent to someone
+      // else would otherwise attach THEIR identity to this account
+      res.cookie(STATE_COOKIE, state, { ...stateCookieOptions, maxAge: STATE_COOKIE_MAX_AGE });
+      res.json({ authorizationUrl });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return sendOidcError(res, error);
+      }
+      console.error('OIDC link error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/auth/oidc/identities
+ * List the current user's linked identities
+ */
+router.get(
+  '/identities',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      const identities = await getLinkedIdentityStore().listForUser(req.user!.id);
+      res.json({
+        identities: identities.map(({ provider, email, linkedAt }) => ({
+          provider,
+          email,
+          linkedAt,
+        })),
+      });
+    } catch (error) {
+      console.error('List identities error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
+
+/**
+ * Usage in main app:
+ *
+ * import oidcRoutes from './routes/oidc';
+ * app.use('/api/auth/oidc', oidcRoutes);
+ *
+ * // Frontend
+ * <a href="/api/auth/oidc/google/start">Sign in with Google</a>
+ *
+ * // Try it without a real provider: see backend/mock-oidc-provider.ts
+ */
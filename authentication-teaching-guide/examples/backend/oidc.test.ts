@@ -0,0 +1,310 @@
+/**
+ * Tests: OpenID Connect Login
+ *
+ * Runs the whole flow offline against the mock provider. ID tokens must
+ * match the nonce, issuer and audience of the login we started, and
+ * provider identities must only ever land on the right local account.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import authRoutes from './auth-routes';
+import oidcRoutes from './oidc-routes';
+import {
+  InMemoryLinkedIdentityStore,
+  InMemoryOidcTransactionStore,
+  setOidcProviders,
+  setOidcStores,
+} from './oidc';
+import { MockOidcProvider, startMockOidcProvider } from './mock-oidc-provider';
+import { InMemoryUserRepository, getUserRepository, setUserRepository } from './user-repository';
+import { InMemoryCounterStore, setCounterStore } from './rate-limit';
+import { InMemoryOutbox, setMailTransport } from './mailer';
+import { generateAccessToken, verifyAccessToken } from './token-utils';
+import { hashPassword } from './password-hashing';
+import { confirmMfaEnrollment, generateTotp, startMfaEnrollment } from './mfa';
+
+process.env.BCRYPT_COST = '4'; // Fast hashing for tests
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/auth/oidc', oidcRoutes);
+
+const clientId = 'teaching-app';
+const redirectUri = 'http://localhost:3000/api/auth/oidc/mock/callback';
+
+let idp: MockOidcProvider;
+
+beforeAll(async () => {
+  idp = await startMockOidcProvider({
+    clientId,
+    clientSecret: 'mock-secret',
+    users: [
+      { sub: 'idp-ada', email: 'ada@example.com', email_verified: true },
+      { sub: 'idp-grace', email: 'grace@example.com', email_verified: true },
+      { sub: 'idp-mallory', email: 'ada@example.com', email_verified: false },
+      { sub: 'idp-alan', email: 'alan@example.com', email_verified: false },
+    ],
+  });
+  setOidcProviders({
+    mock: { issuer: idp.issuer, clientId, clientSecret: 'mock-secret', redirectUri },
+  });
+});
+
+afterAll(() => idp.close());
+
+beforeEach(() => {
+  setUserRepository(new InMemoryUserRepository());
+  setCounterStore(new InMemoryCounterStore());
+  setMailTransport(new InMemoryOutbox());
+  setOidcStores({
+    transactions: new InMemoryOidcTransactionStore(),
+    identities: new InMemoryLinkedIdentityStore(),
+  });
+  idp.claimOverrides = {};
+});
+
+async function createUser(email: string) {
+  const user = await getUserRepository().create({
+    email,
+    passwordHash: await hashPassword('correct horse battery'),
+  });
+  return (await getUserRepository().update(user.id, { emailVerifiedAt: Date.now() }))!;
+}
+
+/**
+ * Follow the provider redirect like a browser; returns the callback query
+ */
+async function authorizeAtProvider(authorizationUrl: string, loginHint: string) {
+  const url = new URL(authorizationUrl);
+  url.searchParams.set('login_hint', loginHint);
+  const response = await fetch(url, { redirect: 'manual' });
+  return new URL(response.headers.get('location')!).searchParams;
+}
+
+/**
+ * A whole login in one browser (an agent keeps its cookies)
+ */
+async function signIn(loginHint: string) {
+  const browser = request.agent(app);
+  const start = await browser.get('/api/auth/oidc/mock/start');
+  const callback = await authorizeAtProvider(start.headers.location, loginHint);
+  return browser.get('/api/auth/oidc/mock/callback').query(Object.fromEntries(callback));
+}
+
+describe('GET /api/auth/oidc/:provider/start', () => {
+  test('redirects to the provider with state, nonce and PKCE', async () => {
+    const response = await request(app).get('/api/auth/oidc/mock/start');
+
+    const location = new URL(response.headers.location);
+    expect(response.status).toBe(302);
+    expect(location.origin + location.pathname).toBe(`${idp.issuer}/authorize`);
+    expect(location.searchParams.get('client_id')).toBe(clientId);
+    expect(location.searchParams.get('scope')).toBe('openid email profile');
+    expect(location.searchParams.get('state')).toEqual(expect.any(String));
+    expect(location.searchParams.get('nonce')).toEqual(expect.any(String));
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+
+  test('returns 404 for an unknown provider', async () => {
+    const response = await request(app).get('/api/auth/oidc/nope/start');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/auth/oidc/:provider/callback', () => {
+  test('creates a user and returns the same token pair as /login', async () => {
+    const response = await signIn('grace@example.com');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      accessToken: expect.any(String),
+      refreshToken: expect.any(String),
+      user: { email: 'grace@example.com', role: 'user' },
+    });
+    expect(verifyAccessToken(response.body.accessToken).sub).toBe(response.body.user.id);
+
+    const refreshed = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: response.body.refreshToken });
+    expect(refreshed.status).toBe(200);
+  });
+
+  test('logs a linked identity back into the same user', async () => {
+    const first = await signIn('idp-grace');
+    const second = await signIn('idp-grace');
+
+    expect(second.body.user.id).toBe(first.body.user.id);
+  });
+
+  test('links an existing account when the provider verified the email', async () => {
+    const ada = await createUser('ada@example.com');
+
+    const response = await signIn('idp-ada');
+
+    expect(response.status).toBe(200);
+    expect(response.body.user.id).toBe(ada.id);
+  });
+
+  test('does not link an existing account on an unverified email', async () => {
+    const ada = await createUser('ada@example.com');
+
+    const response = await signIn('idp-mallory');
+
+    expect(response.status).toBe(409);
+    expect(response.body.reason).toBe('account_exists');
+    const login = await signIn('idp-ada');
+    expect(login.body.user.id).toBe(ada.id);
+  });
+
+  test('does not link an existing account that never verified its email', async () => {
+    // Someone else may have registered the address here, with their password
+    const squatter = await getUserRepository().create({
+      email: 'ada@example.com',
+      passwordHash: await hashPassword('correct horse battery'),
+    });
+
+    const response = await signIn('idp-ada');
+
+    expect(response.status).toBe(409);
+    expect(response.body.reason).toBe('account_exists');
+    expect((await getUserRepository().findById(squatter.id))!.emailVerifiedAt).toBeNull();
+  });
+
+  test('does not create an account for an unverified email', async () => {
+    const response = await signIn('idp-alan');
+
+    expect(response.status).toBe(403);
+    expect(response.body.reason).toBe('email_not_verified');
+    expect(await getUserRepository().findByEmail('alan@example.com')).toBeNull();
+  });
+
+  test('does not take over the account once its owner registers and verifies', async () => {
+    await signIn('idp-alan');
+    await createUser('alan@example.com');
+
+    const response = await signIn('idp-alan');
+
+    expect(response.status).toBe(409);
+    expect(response.body.reason).toBe('account_exists');
+  });
+
+  test('asks for the second factor when MFA is on', async () => {
+    const ada = await createUser('ada@example.com');
+    const { secret } = await startMfaEnrollment(ada);
+    await confirmMfaEnrollment(ada.id, generateTotp(secret));
+
+    const response = await signIn('idp-ada');
+
+    expect(response.body).toMatchObject({ mfaRequired: true, mfaToken: expect.any(String) });
+    expect(response.body.accessToken).toBeUndefined();
+  });
+
+  test('rejects a state that was not issued, or is reused', async () => {
+    const browser = request.agent(app);
+    const start = await browser.get('/api/auth/oidc/mock/start');
+    const params = await authorizeAtProvider(start.headers.location, 'idp-ada');
+    const callback = Object.fromEntries(params);
+
+    const forged = await request(app)
+      .get('/api/auth/oidc/mock/callback')
+      .set('Cookie', 'oidcState=forged')
+      .query({ ...callback, state: 'forged' });
+    await browser.get('/api/auth/oidc/mock/callback').query(callback);
+    const replayed = await request(app)
+      .get('/api/auth/oidc/mock/callback')
+      .set('Cookie', `oidcState=${callback.state}`)
+      .query(callback);
+
+    expect(forged.body.reason).toBe('invalid_state');
+    expect(replayed.body.reason).toBe('invalid_state');
+  });
+
+  test('rejects a callback in a browser that did not start the login', async () => {
+    const start = await request(app).get('/api/auth/oidc/mock/start');
+    const params = await authorizeAtProvider(start.headers.location, 'idp-ada');
+
+    const response = await request(app)
+      .get('/api/auth/oidc/mock/callback')
+      .query(Object.fromEntries(params));
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid_state');
+  });
+
+  test.each([
+    ['nonce', { nonce: 'from-another-login' }],
+    ['audience', { aud: 'another-client' }],
+    ['issuer', { iss: 'https://evil.example.com' }],
+    ['expiry', { exp: Math.floor(Date.now() / 1000) - 3600 }],
+  ])('rejects an ID token with the wrong %s', async (_claim, overrides) => {
+    idp.claimOverrides = overrides;
+
+    const response = await signIn('idp-ada');
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid_id_token');
+  });
+});
+
+describe('POST /api/auth/oidc/:provider/link', () => {
+  test('links a provider identity to the logged-in user', async () => {
+    const user = await createUser('ada.work@example.com');
+
+    const browser = request.agent(app);
+    const link = await browser
+      .post('/api/auth/oidc/mock/link')
+      .set('Authorization', `Bearer ${generateAccessToken(user)}`);
+    const callback = await authorizeAtProvider(link.body.authorizationUrl, 'idp-grace');
+    await browser.get('/api/auth/oidc/mock/callback').query(Object.fromEntries(callback));
+
+    const login = await signIn('idp-grace');
+    const identities = await request(app)
+      .get('/api/auth/oidc/identities')
+      .set('Authorization', `Bearer ${generateAccessToken(user)}`);
+
+    expect(login.body.user.id).toBe(user.id);
+    expect(identities.body.identities).toEqual([
+      { provider: 'mock', email: 'grace@example.com', linkedAt: expect.any(Number) },
+    ]);
+  });
+
+  test('refuses an identity already linked to another user', async () => {
+    await signIn('idp-grace');
+    const user = await createUser('ada.work@example.com');
+
+    const browser = request.agent(app);
+    const link = await browser
+      .post('/api/auth/oidc/mock/link')
+      .set('Authorization', `Bearer ${generateAccessToken(user)}`);
+    const callback = await authorizeAtProvider(link.body.authorizationUrl, 'idp-grace');
+    const response = await browser
+      .get('/api/auth/oidc/mock/callback')
+      .query(Object.fromEntries(callback));
+
+    expect(response.status).toBe(409);
+    expect(response.body.reason).toBe('already_linked');
+  });
+
+  test("a link URL opened in someone else's browser does not link their identity", async () => {
+    const attacker = await createUser('mallory@example.com');
+
+    // The attacker starts a link for their own account...
+    const link = await request(app)
+      .post('/api/auth/oidc/mock/link')
+      .set('Authorization', `Bearer ${generateAccessToken(attacker)}`);
+    // ...and the victim, already signed in at the provider, opens the URL
+    const callback = await authorizeAtProvider(link.body.authorizationUrl, 'idp-grace');
+    const response = await request(app)
+      .get('/api/auth/oidc/mock/callback')
+      .query(Object.fromEntries(callback));
+    const identities = await request(app)
+      .get('/api/auth/oidc/identities')
+      .set('Authorization', `Bearer ${generateAccessToken(attacker)}`);
+
+    expect(response.body.reason).toBe('invalid_state');
+    expect(identities.body.identities).toEqual([]);
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * OpenID Connect Login ("Sign in with Google / Microsoft")
+ *
+ * This example shows the relying-party side of OIDC:
+ * 1. Discovery: endpoints and keys come from the provider's
+ *    /.well-known/openid-configuration
+ * 2. The user is sent to the provider with an authorization code
+ *    request, protected by `state` (CSRF - also kept in a cookie, so
+ *    only the browser that started can finish), `nonce` (ID token
+ *    replay) and PKCE (code interception)
+ * 3. The code is exchanged for an ID token, which is verified:
+ *    signature (provider JWKS), issuer, audience, expiry and nonce
+ * 4. The provider identity (issuer + subject) is linked to a local user,
+ *    who then gets the usual token pair
+ *
+ * Linking rules:
+ * - An identity that is already linked logs in as its user
+ * - A logged-in user can link a new identity to their account
+ * - Otherwise, a local account with the same email is only linked when
+ *   the provider says the email is verified (or anyone could register
+ *   victim@example.com at some provider and take the account over) AND
+ *   the local account verified it too (or someone who pre-registered
+ *   victim@example.com here would keep a working password on the
+ *   victim's account)
+ * - Otherwise a new user is created - only for an email the provider
+ *   verified, or whoever holds that provider account would be waiting on
+ *   the address's account for its owner to verify or reset it
+ *
+ * Identities are keyed by issuer + `sub`, never by email: emails change
+ * and can be reassigned, `sub` can't.
+ */
+
+import crypto from 'crypto';
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'jose';
+import { getUserRepository, UserRecord } from './user-repository';
+import { hashPassword } from './password-hashing';
+import { tokenPolicy } from '../shared/token-policy';
+
+const TRANSACTION_TTL_MS = 10 * 60 * 1000;
+
+export interface OidcProviderConfig {
+  /** Issuer URL, exactly as the provider's discovery document states it */
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Our callback, registered with the provider */
+  redirectUri: string;
+  scopes?: string[];
+}
+
+/**
+ * The parts of the discovery document we use
+ */
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * A login in progress, between the redirect to the provider and the callback
+ */
+export interface OidcTransaction {
+  state: string;
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  linkUserId?: string; // Set when a logged-in user is linking an identity
+  expiresAt: number; // ms since epoch
+}
+
+export interface LinkedIdentity {
+  provider: string;
+  issuer: string;
+  subject: string; // The provider's `sub` - stable, unlike email
+  userId: string;
+  email: string | null;
+  linkedAt: number; // ms since epoch
+}
+
+/**
+ * Storage backends - implement these for your database (Postgres, Redis, ...)
+ */
+export interface OidcTransactionStore {
+  save(transaction: OidcTransaction): Promise<void>;
+  /** Remove and return (atomic - each state works once) */
+  consume(state: string): Promise<OidcTransaction | null>;
+}
+
+export interface LinkedIdentityStore {
+  find(issuer: string, subject: string): Promise<LinkedIdentity | null>;
+  listForUser(userId: string): Promise<LinkedIdentity[]>;
+  save(identity: LinkedIdentity): Promise<void>;
+}
+
+/**
+ * In-memory stores (single process - good for development)
+ */
+export class InMemoryOidcTransactionStore implements OidcTransactionStore {
+  private transactions = new Map<string, OidcTransaction>();
+
+  async save(transaction: OidcTransaction): Promise<void> {
+    this.transactions.set(transaction.state, { ...transaction });
+  }
+
+  async consume(state: string): Promise<OidcTransaction | null> {
+    const transaction = this.transactions.get(state);
+    this.transactions.delete(state);
+    return transaction ?? null;
+  }
+}
+
+export class InMemoryLinkedIdentityStore implements LinkedIdentityStore {
+  private identities = new Map<string, LinkedIdentity>();
+
+  async find(issuer: string, subject: string): Promise<LinkedIdentity | null> {
+    const identity = this.identities.get(`${issuer} ${subject}`);
+    return identity ? { ...identity } : null;
+  }
+
+  async listForUser(userId: string): Promise<LinkedIdentity[]> {
+    return [...this.identities.values()]
+      .filter((identity) => identity.userId === userId)
+      .map((identity) => ({ ...identity }));
+  }
+
+  async save(identity: LinkedIdentity): Promise<void> {
+    this.identities.set(`${identity.issuer} ${identity.subject}`, { ...identity });
+  }
+}
+
+let providers: Record<string, OidcProviderConfig> = {};
+let transactionStore: OidcTransactionStore = new InMemoryOidcTransactionStore();
+let identityStore: LinkedIdentityStore = new InMemoryLinkedIdentityStore();
+
+// Discovery documents and key sets, fetched once per issuer
+const discoveryCache = new Map<string, Promise<DiscoveryDocument>>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+/**
+ * Configure the providers users can sign in with (call once at startup)
+ */
+export function setOidcProviders(configs: Record<string, OidcProviderConfig>): void {
+  providers = { ...configs };
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+/**
+ * Configure the stores (call once at startup)
+ */
+export function setOidcStores(stores: {
+  transactions?: OidcTransactionStore;
+  identities?: LinkedIdentityStore;
+}): void {
+  transactionStore = stores.transactions ?? transactionStore;
+  identityStore = stores.identities ?? identityStore;
+}
+
+export function getLinkedIdentityStore(): LinkedIdentityStore {
+  return identityStore;
+}
+
+export type OidcFailure =
+  | 'unknown_provider'
+  | 'invalid_state'
+  | 'provider_error'
+  | 'invalid_id_token'
+  | 'email_required'
+  | 'account_exists'
+  | 'email_not_verified'
+  | 'already_linked';
+
+/**
+ * Thrown when an OIDC login can't be completed
+ */
+export class OidcError extends Error {
+  constructor(public readonly reason: OidcFailure, message = `OIDC login failed: ${reason}`) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+function getProvider(name: string): OidcProviderConfig {
+  const provider = providers[name];
+  if (!provider) {
+    throw new OidcError('unknown_provider');
+  }
+  return provider;
+}
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ */
+async function discover(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+  let discovery = discoveryCache.get(provider.issuer);
+  if (!discovery) {
+    discovery = (async () => {
+      const url = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new OidcError('provider_error', `Discovery failed with ${response.status}`);
+      }
+
+      const document = (await response.json()) as DiscoveryDocument;
+      // The document must describe the issuer we trust (OIDC Discovery 4.3)
+      if (document.issuer !== provider.issuer) {
+        throw new OidcError('provider_error', 'Discovery issuer does not match');
+      }
+      return document;
+    })();
+    discoveryCache.set(provider.issuer, discovery);
+    // Don't cache failures - try again on the next login
+    discovery.catch(() => discoveryCache.delete(provider.issuer));
+  }
+  return discovery;
+}
+
+function getJwks(discovery: DiscoveryDocument) {
+  let jwks = jwksCache.get(discovery.jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(discovery.jwks_uri));
+    jwksCache.set(discovery.jwks_uri, jwks);
+  }
+  return jwks;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Start a login: returns the provider URL to send the browser to, and
+ * the state to also give that browser in a cookie (see completeOidcLogin)
+ * Pass linkUserId when a logged-in user is linking a new identity
+ */
+export async function startOidcLogin(
+  providerName: string,
+  options: { linkUserId?: string } = {}
+): Promise<{ authorizationUrl: string; state: string }> {
+  const provider = getProvider(providerName);
+  const discovery = await discover(provider);
+
+  const transaction: OidcTransaction = {
+    state: randomToken(),
+    provider: providerName,
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    linkUserId: options.linkUserId,
+    expiresAt: Date.now() + TRANSACTION_TTL_MS,
+  };
+  await transactionStore.save(transaction);
+
+  const codeChallenge = crypto
+    .createHash('sha256')
+    .update(transaction.codeVerifier)
+    .digest('base64url');
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: (provider.scopes ?? ['openid', 'email', 'profile']).join(' '),
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return { authorizationUrl: url.toString(), state: transaction.state };
+}
+
+/**
+ * Exchange the code for tokens at the provider's token endpoint
+ */
+async function exchangeCode(
+  provider: OidcProviderConfig,
+  discovery: DiscoveryDocument,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+  const tokens = await response.json();
+  if (!response.ok || typeof tokens.id_token !== 'string') {
+    const reason = tokens.error ?? response.status;
+    throw new OidcError('provider_error', `Token exchange failed: ${reason}`);
+  }
+  return tokens.id_token;
+}
+
+/**
+ * Verify the ID token: signature, issuer, audience, expiry and nonce
+ */
+async function verifyIdToken(
+  provider: OidcProviderConfig,
+  discovery: DiscoveryDocument,
+  idToken: string,
+  nonce: string
+): Promise<JWTPayload & { email?: string; email_verified?: boolean }> {
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(idToken, getJwks(discovery), {
+      algorithms: ['RS256', 'ES256'],
+      issuer: provider.issuer,
+      audience: provider.clientId,
+      clockTolerance: tokenPolicy.clockSkewLeeway,
+    }));
+  } catch (error) {
+    throw new OidcError('invalid_id_token', `ID token rejected: ${(error as Error).message}`);
+  }
+
+  // With several audiences, we must be the party it was issued to
+  if (Array.isArray(payload.aud) && payload.aud.length > 1 && payload.azp !== provider.clientId) {
+    throw new OidcError('invalid_id_token', 'ID token was issued to another party');
+  }
+  // Ties the token to the login this browser started
+  if (typeof payload.nonce !== 'string' || payload.nonce !== nonce) {
+    throw new OidcError('invalid_id_token', 'ID token nonce does not match');
+  }
+  if (!payload.sub) {
+    throw new OidcError('invalid_id_token', 'ID token has no subject');
+  }
+  return payload;
+}
+
+/**
+ * Find the local user for a verified identity, linking or creating as needed
+ */
+async function resolveUser(
+  providerName: string,
+  provider: OidcProviderConfig,
+  claims: JWTPayload & { email?: string; email_verified?: boolean },
+  linkUserId?: string
+): Promise<UserRecord> {
+  const users = getUserRepository();
+  const subject = claims.sub!;
+  const email = typeof claims.email === 'string' ? claims.email : null;
+  const emailVerified = claims.email_verified === true;
+
+  const link = async (user: UserRecord) => {
+    await identityStore.save({
+      provider: providerName,
+      issuer: provider.issuer,
+      subject,
+      userId: user.id,
+      email,
+      linkedAt: Date.now(),
+    });
+    return user;
+  };
+
+  // 1. Already linked
+  const linked = await identityStore.find(provider.issuer, subject);
+  if (linked) {
+    if (linkUserId && linked.userId !== linkUserId) {
+      throw new OidcError('already_linked', 'This identity is linked to another account');
+    }
+    const user = await users.findById(linked.userId);
+    if (!user) {
+      throw new OidcError('invalid_state', 'Linked user no longer exists');
+    }
+    return user;
+  }
+
+  // 2. A logged-in user linking a new identity
+  if (linkUserId) {
+    const user = await users.findById(linkUserId);
+    if (!user) {
+      throw new OidcError('invalid_state', 'User no longer exists');
+    }
+    return link(user);
+  }
+
+  if (!email) {
+    throw new OidcError('email_required', 'The provider did not share an email address');
+  }
+
+  // 3. An existing account with the same email, verified on both sides
+  const existing = await users.findByEmail(email);
+  if (existing) {
+    if (!emailVerified || existing.emailVerifiedAt === null) {
+      throw new OidcError('account_exists', 'Log in with your password to link this provider');
+    }
+    return link(existing);
+  }
+
+  // 4. A new user for a verified email, with no usable password (they can
+  //    set one with forgot-password)
+  if (!emailVerified) {
+    throw new OidcError('email_not_verified', 'The provider has not verified this email');
+  }
+  const user = await users.create({
+    email,
+    passwordHash: await hashPassword(randomToken()),
+  });
+  return link((await users.update(user.id, { emailVerifiedAt: Date.now() }))!);
+}
+
+/**
+ * Finish a login at the callback: returns the local user to issue tokens for
+ * Throws OidcError if anything doesn't check out
+ *
+ * `browserState` is the state from the cookie set when the login started.
+ * It must match the state in the URL: a callback URL (or a link URL made
+ * by an attacker for their own account) only works in the browser that
+ * started the login - that is the CSRF protection, not the state alone.
+ */
+export async function completeOidcLogin(
+  providerName: string,
+  params: { code?: string; state?: string; error?: string; browserState?: string }
+): Promise<UserRecord> {
+  const provider = getProvider(providerName);
+
+  // 1. The state must be this browser's, and one we issued, unused,
+  //    unexpired, for this provider
+  if (!params.state || !params.browserState || !safeEqual(params.state, params.browserState)) {
+    throw new OidcError('invalid_state', 'State does not belong to this browser');
+  }
+  const transaction = params.state ? await transactionStore.consume(params.state) : null;
+  const isValid =
+    transaction && transaction.provider === providerName && Date.now() < transaction.expiresAt;
+  if (!transaction || !isValid) {
+    throw new OidcError('invalid_state');
+  }
+  if (params.error || !params.code) {
+    throw new OidcError('provider_error', `Provider returned ${params.error ?? 'no code'}`);
+  }
+
+  // 2. Code -> ID token -> verified claims
+  const discovery = await discover(provider);
+  const idToken = await exchangeCode(provider, discovery, params.code, transaction.codeVerifier);
+  const claims = await verifyIdToken(provider, discovery, idToken, transaction.nonce);
+
+  // 3. Local user
+  return resolveUser(providerName, provider, claims, transaction.linkUserId);
+}
+
+/**
+ * Usage example:
+ *
+ * setOidcProviders({
+ *   google: {
+ *     issuer: 'https://accounts.google.com',
+ *     clientId: process.env.GOOGLE_CLIENT_ID!,
+ *     clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+ *     redirectUri: 'https://app.example.com/api/auth/oidc/google/callback',
+ *   },
+ *   // Single tenant - the "common" endpoint has a templated issuer
+ *   microsoft: {
+ *     issuer: `https://login.microsoftonline.com/${process.env.AZURE_TENANT_ID}/v2.0`,
+ *     clientId: process.env.AZURE_CLIENT_ID!,
+ *     clientSecret: process.env.AZURE_CLIENT_SECRET,
+ *     redirectUri: 'https://app.example.com/api/auth/oidc/microsoft/callback',
+ *   },
+ * });
+ *
+ * const { authorizationUrl, state } = await startOidcLogin('google');
+ * res.cookie('oidcState', state, { httpOnly: true, sameSite: 'lax' });
+ * res.redirect(authorizationUrl);
+ * // ...and at the callback
+ * const user = await completeOidcLogin('google', {
+ *   ...req.query,
+ *   browserState: readCookie(req, 'oidcState'),
+ * });
+ */
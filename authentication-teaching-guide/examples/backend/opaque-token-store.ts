@@ -0,0 +1,88 @@
+/**
+ * Opaque Access Token Store
+ *
+ * This example shows the server side of "reference tokens": the client
+ * only gets a random string, and all claims live in this store.
+ * - Clients can't read any claims from the token
+ * - Deleting the record revokes the token instantly (no denylist needed)
+ *
+ * Records are keyed by a SHA-256 hash of the token, so a leaked
+ * database dump can't be replayed as bearer tokens.
+ */
+
+export interface OpaqueTokenRecord {
+  id: string; // SHA-256 hash of the token
+  sub: string;
+  email: string;
+  role: string;
+  tenantId?: string;
+  clientId?: string;
+  scope?: string;
+  tokenVersion: number;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+}
+
+/**
+ * Storage backend for opaque tokens
+ * Implement this for your database (Postgres, Redis, ...)
+ *
+ * find() must still return recently expired records: the verifier decides
+ * expiry (with the clock skew leeway), and answers token_expired - so the
+ * client refreshes - instead of treating the token as unknown.
+ */
+export interface OpaqueTokenStore {
+  save(record: OpaqueTokenRecord): Promise<void>;
+  find(id: string): Promise<OpaqueTokenRecord | null>;
+  delete(id: string): Promise<void>;
+  deleteAllForUser(userId: string): Promise<void>;
+}
+
+// How long expired records stay findable (then the token is just unknown)
+const EXPIRED_RECORD_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryOpaqueTokenStore implements OpaqueTokenStore {
+  private records = new Map<string, OpaqueTokenRecord>();
+
+  async save(record: OpaqueTokenRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async find(id: string): Promise<OpaqueTokenRecord | null> {
+    const record = this.records.get(id);
+    if (!record) return null;
+
+    // Drop long-expired records lazily
+    if (Date.now() >= record.exp * 1000 + EXPIRED_RECORD_RETENTION_MS) {
+      this.records.delete(id);
+      return null;
+    }
+    return { ...record };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    for (const [id, record] of this.records) {
+      if (record.sub === userId) this.records.delete(id);
+    }
+  }
+}
+
+let opaqueTokenStore: OpaqueTokenStore = new InMemoryOpaqueTokenStore();
+
+/**
+ * Configure the store used for opaque tokens (call once at startup)
+ */
+export function setOpaqueTokenStore(store: OpaqueTokenStore): void {
+  opaqueTokenStore = store;
+}
+
+export function getOpaqueTokenStore(): OpaqueTokenStore {
+  return opaqueTokenStore;
+}
@@ -0,0 +1,256 @@
+/**
+ * Express Passkey (WebAuthn) Routes
+ *
+ * This example shows the endpoints for passkey registration and login:
+ * - POST   /api/auth/passkeys/register/options - challenge for a new passkey
+ * - POST   /api/auth/passkeys/register/verify  - store the new passkey
+ * - POST   /api/auth/passkeys/login/options    - challenge for a login
+ * - POST   /api/auth/passkeys/login/verify     - responds like /api/auth/login
+ * - GET    /api/auth/passkeys                  - the current user's passkeys
+ * - DELETE /api/auth/passkeys/:id              - remove one
+ *
+ * Registering needs the user's own login (password, magic link, ...) -
+ * not an OAuth client's token, or a client with profile:read could add a
+ * passkey and log in as the user. After that the passkey alone logs in.
+ * The ceremony checks live in passkeys.ts.
+ */
+
+import express, { Request, Response } from 'express';
+import { authenticateToken, requireUserSession } from './auth-middleware';
+import { tokenResponse } from './auth-routes';
+import {
+  AuthenticationResponseJSON,
+  finishPasskeyLogin,
+  finishPasskeyRegistration,
+  getPasskeyCredentialStore,
+  PasskeyCredential,
+  PasskeyError,
+  RegistrationResponseJSON,
+  startPasskeyLogin,
+  startPasskeyRegistration,
+} from './passkeys';
+import { getUserRepository } from './user-repository';
+import { rateLimit } from './rate-limit';
+import { validateBody } from './validate-request';
+import { auditRequest } from './audit-log';
+import {
+  passkeyLoginSchema,
+  PasskeyLoginRequest,
+  passkeyRegistrationSchema,
+  PasskeyRegistrationRequest,
+} from '../shared/auth-schemas';
+
+const router = express.Router();
+
+const MINUTE = 60 * 1000;
+
+const PASSKEY_ERRORS: Record<string, string> = {
+  invalid_response: 'Invalid passkey response',
+  invalid_challenge: 'Passkey request expired or invalid - please try again',
+  origin_mismatch: 'Passkey used on the wrong site',
+  rp_id_mismatch: 'Passkey belongs to another site',
+  user_not_verified: 'Passkey did not verify the user (PIN or biometrics required)',
+  unsupported_algorithm: 'Passkey uses an unsupported algorithm',
+  already_registered: 'This passkey is already registered',
+  unknown_credential: 'Unknown passkey',
+  invalid_signature: 'Invalid passkey signature',
+  sign_count_mismatch: 'Passkey may have been cloned - please contact support',
+};
+
+const PASSKEY_STATUS: Record<string, number> = {
+  already_registered: 409,
+};
+
+// Each options request stores a challenge - don't let one client fill the store
+const loginLimit = rateLimit({ name: 'passkey-login-ip', limit: 30, windowMs: 15 * MINUTE });
+
+function sendPasskeyError(res: Response, error: PasskeyError) {
+  return res.status(PASSKEY_STATUS[error.reason] ?? 400).json({
+    error: PASSKEY_ERRORS[error.reason],
+    reason: error.reason,
+  });
+}
+
+/**
+ * What clients see of a passkey (not the public key or counter)
+ */
+function toPasskeySummary({ id, name, createdAt, lastUsedAt }: PasskeyCredential) {
+  return { id, name, createdAt, lastUsedAt };
+}
+
+/**
+ * POST /api/auth/passkeys/register/options
+ * Options for navigator.credentials.create()
+ */
+router.post(
+  '/register/options',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      res.json(await startPasskeyRegistration(req.user!));
+    } catch (error) {
+      console.error('Passkey registration options error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/passkeys/register/verify
+ * Check the new credential and store it
+ */
+router.post(
+  '/register/verify',
+  authenticateToken,
+  requireUserSession,
+  validateBody(passkeyRegistrationSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { credential, name }: PasskeyRegistrationRequest = req.body;
+      const passkey = await finishPasskeyRegistration(
+        req.user!.id,
+        credential as unknown as RegistrationResponseJSON,
+        name
+      );
+
+      await auditRequest(req, {
+        type: 'passkey_registered',
+        userId: req.user!.id,
+        details: { passkeyId: passkey.id },
+      });
+      res.status(201).json({ passkey: toPasskeySummary(passkey) });
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return sendPasskeyError(res, error);
+      }
+      console.error('Passkey registration error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/passkeys/login/options
+ * Options for navigator.credentials.get()
+ */
+router.post('/login/options', loginLimit, async (req: Request, res: Response) => {
+  try {
+    res.json(await startPasskeyLogin());
+  } catch (error) {
+    console.error('Passkey login options error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/passkeys/login/verify
+ * Check the signature and respond like /api/auth/login
+ *
+ * No MFA challenge: passkeys are only accepted with user verification
+ * (PIN or biometrics), so the passkey is already two factors.
+ */
+router.post(
+  '/login/verify',
+  loginLimit,
+  validateBody(passkeyLoginSchema),
+  async (req: Request, res: Response) => {
+    try {
+      // 1. Check the assertion against the stored public key
+      const { credential }: PasskeyLoginRequest = req.body;
+      const passkey = await finishPasskeyLogin(credential as unknown as AuthenticationResponseJSON);
+
+      // 2. The account it belongs to
+      const user = await getUserRepository().findById(passkey.userId);
+      if (!user) {
+        throw new PasskeyError('unknown_credential');
+      }
+
+      // 3. The usual token pair
+      await auditRequest(req, {
+        type: 'login_succeeded',
+        userId: user.id,
+        email: user.email,
+        details: { method: 'passkey', passkeyId: passkey.id },
+      });
+      res.json(await tokenResponse(user, req));
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        await auditRequest(req, {
+          type: 'login_failed',
+          reason: error.reason,
+          details: { method: 'passkey' },
+        });
+        return sendPasskeyError(res, error);
+      }
+      console.error('Passkey login error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/auth/passkeys
+ * List the current user's passkeys
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      const passkeys = await getPasskeyCredentialStore().listForUser(req.user!.id);
+      res.json({ passkeys: passkeys.map(toPasskeySummary) });
+    } catch (error) {
+      console.error('List passkeys error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/auth/passkeys/:id
+ * Remove one of the current user's passkeys
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireUserSession,
+  async (req: Request, res: Response) => {
+    try {
+      if (!(await getPasskeyCredentialStore().delete(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: 'Passkey not found' });
+      }
+
+      await auditRequest(req, {
+        type: 'passkey_removed',
+        userId: req.user!.id,
+        details: { passkeyId: req.params.id },
+      });
+      res.json({ message: 'Passkey removed' });
+    } catch (error) {
+      console.error('Remove passkey error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
+
+/**
+ * Usage in main app:
+ *
+ * import passkeyRoutes from './routes/passkeys';
+ * app.use('/api/auth/passkeys', passkeyRoutes);
+ *
+ * // Frontend login
+ * const options = await post('/api/auth/passkeys/login/options');
+ * const credential = await navigator.credentials.get({
+ *   publicKey: PublicKeyCredential.parseRequestOptionsFromJSON(options),
+ * });
+ * const tokens = await post('/api/auth/passkeys/login/verify', {
+ *   credential: credential.toJSON(),
+ * });
+ *
+ * // Try it without a browser: see backend/software-authenticator.ts
+ */
@@ -0,0 +1,319 @@
+/**
+ * Tests: WebAuthn Passkeys
+ *
+ * Runs both ceremonies against a software authenticator. A passkey must
+ * only log in with a fresh challenge, from our origin, signed by the
+ * registered key - and a counter that goes back means a clone.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import authRoutes from './auth-routes';
+import passkeyRoutes from './passkey-routes';
+import {
+  InMemoryPasskeyChallengeStore,
+  InMemoryPasskeyCredentialStore,
+  setPasskeyStores,
+} from './passkeys';
+import { SoftwareAuthenticator } from './software-authenticator';
+import { getUserRepository, InMemoryUserRepository, setUserRepository } from './user-repository';
+import { InMemoryCounterStore, setCounterStore } from './rate-limit';
+import { hashPassword } from './password-hashing';
+import { generateAccessToken } from './token-utils';
+
+process.env.BCRYPT_COST = '4'; // Fast hashing for tests
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/auth/passkeys', passkeyRoutes);
+
+const credentials = { email: 'ada@example.com', password: 'Correct horse battery 1' };
+
+let authenticator: SoftwareAuthenticator;
+let accessToken: string;
+let userId: string;
+
+beforeEach(async () => {
+  setUserRepository(new InMemoryUserRepository());
+  setCounterStore(new InMemoryCounterStore());
+  setPasskeyStores({
+    challenges: new InMemoryPasskeyChallengeStore(),
+    credentials: new InMemoryPasskeyCredentialStore(),
+  });
+  authenticator = new SoftwareAuthenticator();
+
+  const user = await getUserRepository().create({
+    email: credentials.email,
+    passwordHash: await hashPassword(credentials.password),
+  });
+  await getUserRepository().update(user.id, { emailVerifiedAt: Date.now() });
+  userId = user.id;
+  const login = await request(app).post('/api/auth/login').send(credentials);
+  accessToken = login.body.accessToken;
+});
+
+/**
+ * Register a passkey on the software authenticator for the logged-in user
+ */
+async function registerPasskey(token = accessToken) {
+  const options = await request(app)
+    .post('/api/auth/passkeys/register/options')
+    .set('Authorization', `Bearer ${token}`);
+  const credential = await authenticator.create(options.body);
+
+  return request(app)
+    .post('/api/auth/passkeys/register/verify')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ credential, name: 'Laptop' });
+}
+
+/**
+ * A signed login response from the software authenticator
+ */
+async function passkeyAssertion() {
+  const options = await request(app).post('/api/auth/passkeys/login/options');
+  return authenticator.get(options.body);
+}
+
+describe('registration', () => {
+  test('stores the passkey for the logged-in user', async () => {
+    const response = await registerPasskey();
+    const list = await request(app)
+      .get('/api/auth/passkeys')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(response.status).toBe(201);
+    expect(response.body.passkey).toEqual(
+      expect.objectContaining({ id: expect.any(String), name: 'Laptop', lastUsedAt: null })
+    );
+    expect(list.body.passkeys).toEqual([response.body.passkey]);
+  });
+
+  test('requires a logged-in user', async () => {
+    const response = await request(app).post('/api/auth/passkeys/register/options');
+
+    expect(response.status).toBe(401);
+  });
+
+  test("can't be done with an OAuth client's token", async () => {
+    const clientToken = generateAccessToken({
+      id: userId,
+      email: credentials.email,
+      role: 'user',
+      clientId: 'third-party-app',
+      scopes: ['profile:read'],
+    });
+
+    const options = await request(app)
+      .post('/api/auth/passkeys/register/options')
+      .set('Authorization', `Bearer ${clientToken}`);
+    const verify = await request(app)
+      .post('/api/auth/passkeys/register/verify')
+      .set('Authorization', `Bearer ${clientToken}`)
+      .send({ credential: {} });
+
+    expect(options.status).toBe(403);
+    expect(verify.status).toBe(403);
+  });
+
+  test("rejects another user's registration challenge", async () => {
+    const options = await request(app)
+      .post('/api/auth/passkeys/register/options')
+      .set('Authorization', `Bearer ${accessToken}`);
+    const credential = await authenticator.create(options.body);
+
+    const grace = await getUserRepository().create({
+      email: 'grace@example.com',
+      passwordHash: await hashPassword(credentials.password),
+    });
+    await getUserRepository().update(grace.id, { emailVerifiedAt: Date.now() });
+    const graceLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ ...credentials, email: 'grace@example.com' });
+
+    const response = await request(app)
+      .post('/api/auth/passkeys/register/verify')
+      .set('Authorization', `Bearer ${graceLogin.body.accessToken}`)
+      .send({ credential });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid_challenge');
+  });
+
+  test('rejects a truncated or malformed attestation', async () => {
+    // Register with the authenticator's attestation object changed by `tamper`
+    async function registerTampered(tamper: (attestationObject: Buffer) => Buffer) {
+      const options = await request(app)
+        .post('/api/auth/passkeys/register/options')
+        .set('Authorization', `Bearer ${accessToken}`);
+      const credential = await authenticator.create(options.body);
+      const attestationObject = Buffer.from(credential.response.attestationObject, 'base64url');
+      const response = {
+        ...credential.response,
+        attestationObject: tamper(attestationObject).toString('base64url'),
+      };
+
+      return request(app)
+        .post('/api/auth/passkeys/register/verify')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ credential: { ...credential, response } });
+    }
+
+    const truncated = await registerTampered(() => Buffer.from([0x18]));
+    const offCurve = await registerTampered((attestationObject) => {
+      // COSE key parameter -2 (x), a 32-byte string: move the point off the curve
+      const x = attestationObject.indexOf(Buffer.from([0x21, 0x58, 0x20])) + 3;
+      return Buffer.from(attestationObject).fill(0, x, x + 32);
+    });
+
+    expect(truncated.status).toBe(400);
+    expect(truncated.body.reason).toBe('invalid_response');
+    expect(offCurve.status).toBe(400);
+    expect(offCurve.body.reason).toBe('invalid_response');
+  });
+
+  test('excludes passkeys the user already has', async () => {
+    await registerPasskey();
+
+    const options = await request(app)
+      .post('/api/auth/passkeys/register/options')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(options.body.excludeCredentials).toHaveLength(1);
+    await expect(authenticator.create(options.body)).rejects.toThrow('InvalidStateError');
+  });
+});
+
+describe('login', () => {
+  beforeEach(async () => {
+    await registerPasskey();
+  });
+
+  test('issues a working token pair', async () => {
+    const credential = await passkeyAssertion();
+
+    const login = await request(app).post('/api/auth/passkeys/login/verify').send({ credential });
+    const me = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${login.body.accessToken}`);
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.refreshToken });
+
+    expect(login.status).toBe(200);
+    expect(me.body.user.email).toBe(credentials.email);
+    expect(refresh.status).toBe(200);
+  });
+
+  test('accepts each challenge once', async () => {
+    const credential = await passkeyAssertion();
+
+    await request(app).post('/api/auth/passkeys/login/verify').send({ credential });
+    const replay = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({ credential });
+
+    expect(replay.status).toBe(400);
+    expect(replay.body.reason).toBe('invalid_challenge');
+  });
+
+  test('rejects an expired challenge', async () => {
+    const credential = await passkeyAssertion();
+    const now = Date.now();
+    const later = jest.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+
+    const response = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({ credential });
+    later.mockRestore();
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid_challenge');
+  });
+
+  test('rejects a response made on another site', async () => {
+    authenticator.origin = 'https://examp1e.com';
+    const credential = await passkeyAssertion();
+
+    const response = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({ credential });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('origin_mismatch');
+  });
+
+  test('rejects tampered authenticator data', async () => {
+    const credential = await passkeyAssertion();
+    const authenticatorData = Buffer.from(credential.response.authenticatorData, 'base64url');
+    authenticatorData[36] += 1; // Bump the counter after signing
+
+    const response = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({
+        credential: {
+          ...credential,
+          response: {
+            ...credential.response,
+            authenticatorData: authenticatorData.toString('base64url'),
+          },
+        },
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('invalid_signature');
+  });
+
+  test('rejects a counter that goes back (cloned authenticator)', async () => {
+    const first = await passkeyAssertion();
+    await request(app).post('/api/auth/passkeys/login/verify').send({ credential: first });
+
+    authenticator.setSignCount(first.id, 0);
+    const clone = await passkeyAssertion();
+    const response = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({ credential: clone });
+
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('sign_count_mismatch');
+  });
+
+  test('accepts authenticators without a counter', async () => {
+    authenticator = new SoftwareAuthenticator({ countSignatures: false });
+    await registerPasskey();
+
+    for (let i = 0; i < 2; i++) {
+      const credential = await passkeyAssertion();
+      const response = await request(app)
+        .post('/api/auth/passkeys/login/verify')
+        .send({ credential });
+      expect(response.status).toBe(200);
+    }
+  });
+
+  test('rejects a removed passkey', async () => {
+    const list = await request(app)
+      .get('/api/auth/passkeys')
+      .set('Authorization', `Bearer ${accessToken}`);
+    const removed = await request(app)
+      .delete(`/api/auth/passkeys/${list.body.passkeys[0].id}`)
+      .set('Authorization', `Bearer ${accessToken}`);
+    const credential = await passkeyAssertion();
+
+    const response = await request(app)
+      .post('/api/auth/passkeys/login/verify')
+      .send({ credential });
+
+    expect(removed.status).toBe(200);
+    expect(response.status).toBe(400);
+    expect(response.body.reason).toBe('unknown_credential');
+  });
+
+  test('rejects a body without a credential', async () => {
+    const response = await request(app).post('/api/auth/passkeys/login/verify').send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual(['credential is required']);
+  });
+});
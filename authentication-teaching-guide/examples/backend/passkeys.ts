@@ -0,0 +1,631 @@
+/**
+ * WebAuthn Passkeys
+ *
+ * This example shows passwordless, phishing-resistant login with passkeys
+ * (Touch ID, Windows Hello, Android, security keys, password managers).
+ * Each login or registration is a "ceremony" of two requests:
+ * 1. Options: the server sends a random challenge
+ * 2. Verify: the browser's navigator.credentials.create()/get() result
+ *    comes back, signed by the authenticator, and the server checks it
+ *
+ * Registration stores the credential's public key. Login checks a
+ * signature over the challenge with that key - the private key never
+ * leaves the device, so there is nothing to phish or leak from the
+ * database.
+ *
+ * Phishing resistance comes from the browser: it puts the page's origin
+ * in the signed client data, and the authenticator only uses a credential
+ * for the relying party (RP) ID it was created for. The server checks both.
+ *
+ * We ask for attestation: 'none' - which authenticator model made the key
+ * doesn't matter here, and browsers then send the 'none' format. Other
+ * formats are accepted, but their statements are not checked.
+ *
+ * Only node's crypto is used, to show every step. In production, a
+ * maintained library (e.g. @simplewebauthn/server) covers more algorithms
+ * and attestation formats.
+ */
+
+import crypto from 'crypto';
+import { tokenPolicy } from '../shared/token-policy';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+// The page origin the browser reports, and the domain passkeys are bound
+// to (the origin's host, or a parent domain of it)
+const WEBAUTHN_ORIGIN = process.env.WEBAUTHN_ORIGIN || APP_URL;
+const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || new URL(WEBAUTHN_ORIGIN).hostname;
+const WEBAUTHN_RP_NAME = process.env.WEBAUTHN_RP_NAME || 'Example App';
+
+// COSE algorithm ids: ES256 (ECDSA P-256) and RS256 (RSA PKCS#1 v1.5)
+const COSE_ES256 = -7;
+const COSE_RS256 = -257;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export interface PasskeyChallenge {
+  challenge: string; // base64url
+  type: 'registration' | 'authentication';
+  userId: string | null; // Set for registration - logins start anonymous
+  expiresAt: number; // ms since epoch
+}
+
+export interface PasskeyCredential {
+  id: string; // Credential id, base64url
+  userId: string;
+  publicKey: string; // SPKI DER, base64url
+  algorithm: number; // COSE algorithm id
+  /** Authenticator's signature counter (0 if it doesn't keep one) */
+  signCount: number;
+  transports: string[];
+  name: string;
+  createdAt: number; // ms since epoch
+  lastUsedAt: number | null;
+}
+
+/**
+ * Storage backends - implement these for your database (Postgres, Redis, ...)
+ */
+export interface PasskeyChallengeStore {
+  save(challenge: PasskeyChallenge): Promise<void>;
+  /** Remove and return (atomic - each challenge works once) */
+  consume(challenge: string): Promise<PasskeyChallenge | null>;
+}
+
+export interface PasskeyCredentialStore {
+  find(id: string): Promise<PasskeyCredential | null>;
+  listForUser(userId: string): Promise<PasskeyCredential[]>;
+  save(credential: PasskeyCredential): Promise<void>;
+  /**
+   * Move the counter forward; resolves false if it didn't go up - unless
+   * both are 0, for authenticators without a counter (atomic check-and-set)
+   */
+  updateSignCount(id: string, signCount: number, usedAt: number): Promise<boolean>;
+  /** Resolves false if the user has no such credential */
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * In-memory stores (single process - good for development)
+ */
+export class InMemoryPasskeyChallengeStore implements PasskeyChallengeStore {
+  private challenges = new Map<string, PasskeyChallenge>();
+
+  async save(challenge: PasskeyChallenge): Promise<void> {
+    this.challenges.set(challenge.challenge, { ...challenge });
+  }
+
+  async consume(challenge: string): Promise<PasskeyChallenge | null> {
+    const record = this.challenges.get(challenge);
+    this.challenges.delete(challenge);
+    return record ?? null;
+  }
+}
+
+export class InMemoryPasskeyCredentialStore implements PasskeyCredentialStore {
+  private credentials = new Map<string, PasskeyCredential>();
+
+  async find(id: string): Promise<PasskeyCredential | null> {
+    const credential = this.credentials.get(id);
+    return credential ? { ...credential } : null;
+  }
+
+  async listForUser(userId: string): Promise<PasskeyCredential[]> {
+    return [...this.credentials.values()]
+      .filter((credential) => credential.userId === userId)
+      .map((credential) => ({ ...credential }));
+  }
+
+  async save(credential: PasskeyCredential): Promise<void> {
+    this.credentials.set(credential.id, { ...credential });
+  }
+
+  async updateSignCount(id: string, signCount: number, usedAt: number): Promise<boolean> {
+    const credential = this.credentials.get(id);
+    if (!credential) return false;
+    const counting = signCount !== 0 || credential.signCount !== 0;
+    if (counting && signCount <= credential.signCount) return false;
+
+    credential.signCount = signCount;
+    credential.lastUsedAt = usedAt;
+    return true;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const credential = this.credentials.get(id);
+    if (!credential || credential.userId !== userId) return false;
+
+    this.credentials.delete(id);
+    return true;
+  }
+}
+
+let challengeStore: PasskeyChallengeStore = new InMemoryPasskeyChallengeStore();
+let credentialStore: PasskeyCredentialStore = new InMemoryPasskeyCredentialStore();
+
+/**
+ * Configure the stores (call once at startup)
+ */
+export function setPasskeyStores(stores: {
+  challenges?: PasskeyChallengeStore;
+  credentials?: PasskeyCredentialStore;
+}): void {
+  challengeStore = stores.challenges ?? challengeStore;
+  credentialStore = stores.credentials ?? credentialStore;
+}
+
+export function getPasskeyCredentialStore(): PasskeyCredentialStore {
+  return credentialStore;
+}
+
+export type PasskeyFailure =
+  | 'invalid_response'
+  | 'invalid_challenge'
+  | 'origin_mismatch'
+  | 'rp_id_mismatch'
+  | 'user_not_verified'
+  | 'unsupported_algorithm'
+  | 'already_registered'
+  | 'unknown_credential'
+  | 'invalid_signature'
+  | 'sign_count_mismatch';
+
+/**
+ * Thrown when a passkey ceremony can't be completed
+ */
+export class PasskeyError extends Error {
+  constructor(public readonly reason: PasskeyFailure, message = `Passkey check failed: ${reason}`) {
+    super(message);
+    this.name = 'PasskeyError';
+  }
+}
+
+/**
+ * What the browser's PublicKeyCredential.toJSON() sends back
+ * (older browsers: build the same shape by hand, base64url-encoding buffers)
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+// --- CBOR (RFC 8949) - just enough to read attestation objects and COSE keys
+
+type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Make sure `count` more bytes are there - a truncated response is
+ * invalid input, not a server error
+ */
+function ensureBytes(bytes: Buffer, offset: number, count: number): void {
+  if (offset + count > bytes.length) {
+    throw new PasskeyError('invalid_response', 'CBOR: unexpected end');
+  }
+}
+
+/**
+ * Decode one CBOR item at `offset`; returns it and where the next one starts
+ */
+function decodeCbor(bytes: Buffer, offset = 0): { value: CborValue; offset: number } {
+  ensureBytes(bytes, offset, 1);
+  const major = bytes[offset] >> 5;
+  const info = bytes[offset] & 0x1f;
+  offset += 1;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    ensureBytes(bytes, offset, 1);
+    length = bytes.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    ensureBytes(bytes, offset, 2);
+    length = bytes.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    ensureBytes(bytes, offset, 4);
+    length = bytes.readUInt32BE(offset);
+    offset += 4;
+  } else {
+    throw new PasskeyError('invalid_response', 'CBOR: unsupported length');
+  }
+
+  switch (major) {
+    case 0: // unsigned integer
+      return { value: length, offset };
+    case 1: // negative integer
+      return { value: -1 - length, offset };
+    case 2: // byte string
+      ensureBytes(bytes, offset, length);
+      return { value: bytes.subarray(offset, offset + length), offset: offset + length };
+    case 3: // text string
+      ensureBytes(bytes, offset, length);
+      return {
+        value: bytes.toString('utf8', offset, offset + length),
+        offset: offset + length,
+      };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(bytes, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(bytes, offset);
+        const value = decodeCbor(bytes, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7: // false, true, null
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+  }
+  throw new PasskeyError('invalid_response', 'CBOR: unsupported item');
+}
+
+function asMap(value: CborValue): Map<CborValue, CborValue> {
+  if (!(value instanceof Map)) throw new PasskeyError('invalid_response');
+  return value;
+}
+
+function asBuffer(value: CborValue | undefined): Buffer {
+  if (!Buffer.isBuffer(value)) throw new PasskeyError('invalid_response');
+  return value;
+}
+
+/**
+ * Import a JWK built from COSE coordinates - bad ones are an invalid response
+ */
+function importPublicKey(jwk: crypto.JsonWebKeyInput['key']): crypto.KeyObject {
+  try {
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    throw new PasskeyError('invalid_response', 'Invalid credential public key');
+  }
+}
+
+/**
+ * A COSE public key (as stored in authenticator data) as a node KeyObject
+ */
+function coseToPublicKey(cose: Map<CborValue, CborValue>): {
+  key: crypto.KeyObject;
+  algorithm: number;
+} {
+  const algorithm = cose.get(3);
+  if (algorithm === COSE_ES256 && cose.get(1) === 2 && cose.get(-1) === 1) {
+    const jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: asBuffer(cose.get(-2)).toString('base64url'),
+      y: asBuffer(cose.get(-3)).toString('base64url'),
+    };
+    return { key: importPublicKey(jwk), algorithm };
+  }
+  if (algorithm === COSE_RS256 && cose.get(1) === 3) {
+    const jwk = {
+      kty: 'RSA',
+      n: asBuffer(cose.get(-1)).toString('base64url'),
+      e: asBuffer(cose.get(-2)).toString('base64url'),
+    };
+    return { key: importPublicKey(jwk), algorithm };
+  }
+  throw new PasskeyError('unsupported_algorithm');
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+/**
+ * Parse authenticator data: RP ID hash (32) | flags (1) | counter (4)
+ * [| AAGUID (16) | id length (2) | credential id | COSE public key]
+ */
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new PasskeyError('invalid_response');
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) throw new PasskeyError('invalid_response');
+    const idLength = data.readUInt16BE(53);
+    parsed.credentialId = data.subarray(55, 55 + idLength);
+    parsed.credentialPublicKey = asMap(decodeCbor(data, 55 + idLength).value);
+  }
+  return parsed;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+function parseClientData(clientDataJSON: string): ClientData {
+  try {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    if (typeof clientData.challenge === 'string' && typeof clientData.origin === 'string') {
+      return clientData;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new PasskeyError('invalid_response');
+}
+
+/**
+ * The checks both ceremonies share: the challenge is ours, unused and
+ * for this kind of ceremony, and the browser was on our site
+ */
+async function checkClientData(
+  clientData: ClientData,
+  type: PasskeyChallenge['type']
+): Promise<PasskeyChallenge> {
+  const expectedType = type === 'registration' ? 'webauthn.create' : 'webauthn.get';
+  if (clientData.type !== expectedType) {
+    throw new PasskeyError('invalid_response');
+  }
+
+  const challenge = await challengeStore.consume(clientData.challenge);
+  if (!challenge || challenge.type !== type || Date.now() >= challenge.expiresAt) {
+    throw new PasskeyError('invalid_challenge');
+  }
+  // A look-alike domain (a phishing site) shows up here
+  if (clientData.origin !== WEBAUTHN_ORIGIN) {
+    throw new PasskeyError('origin_mismatch');
+  }
+  return challenge;
+}
+
+/**
+ * The RP ID hash and flags both ceremonies require
+ */
+function checkAuthenticatorData(authData: AuthenticatorData): void {
+  const rpIdHash = crypto.createHash('sha256').update(WEBAUTHN_RP_ID).digest();
+  if (!crypto.timingSafeEqual(authData.rpIdHash, rpIdHash)) {
+    throw new PasskeyError('rp_id_mismatch');
+  }
+  // Present: someone touched it. Verified: with a PIN or biometric - which
+  // makes the passkey two factors on its own
+  if (!(authData.flags & FLAG_USER_PRESENT) || !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new PasskeyError('user_not_verified');
+  }
+}
+
+async function createChallenge(
+  type: PasskeyChallenge['type'],
+  userId: string | null
+): Promise<string> {
+  const challenge = crypto.randomBytes(32).toString('base64url');
+  await challengeStore.save({
+    challenge,
+    type,
+    userId,
+    expiresAt: Date.now() + tokenPolicy.passkeyChallengeTtl * 1000,
+  });
+  return challenge;
+}
+
+/**
+ * Registration, step 1: options for navigator.credentials.create()
+ * (PublicKeyCredentialCreationOptionsJSON)
+ */
+export async function startPasskeyRegistration(user: { id: string; email: string }) {
+  const existing = await credentialStore.listForUser(user.id);
+
+  return {
+    challenge: await createChallenge('registration', user.id),
+    rp: { id: WEBAUTHN_RP_ID, name: WEBAUTHN_RP_NAME },
+    // The user handle must not contain personal data - the id, not the email
+    user: {
+      id: Buffer.from(user.id).toString('base64url'),
+      name: user.email,
+      displayName: user.email,
+    },
+    pubKeyCredParams: [
+      { type: 'public-key', alg: COSE_ES256 },
+      { type: 'public-key', alg: COSE_RS256 },
+    ],
+    timeout: tokenPolicy.passkeyChallengeTtl * 1000,
+    attestation: 'none',
+    authenticatorSelection: {
+      residentKey: 'required', // A discoverable credential: login needs no email
+      userVerification: 'required',
+    },
+    // Don't register the same authenticator twice
+    excludeCredentials: existing.map((credential) => ({
+      type: 'public-key',
+      id: credential.id,
+      transports: credential.transports,
+    })),
+  };
+}
+
+/**
+ * Registration, step 2: verify the new credential and store its public key
+ */
+export async function finishPasskeyRegistration(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name = 'Passkey'
+): Promise<PasskeyCredential> {
+  if (typeof response?.response?.attestationObject !== 'string') {
+    throw new PasskeyError('invalid_response');
+  }
+
+  // 1. Client data: our challenge, for this user, from our origin
+  const clientData = parseClientData(response.response.clientDataJSON);
+  const challenge = await checkClientData(clientData, 'registration');
+  if (challenge.userId !== userId) {
+    throw new PasskeyError('invalid_challenge');
+  }
+
+  // 2. Attestation object: authenticator data for our RP, with the new key
+  const attestation = asMap(
+    decodeCbor(Buffer.from(response.response.attestationObject, 'base64url')).value
+  );
+  const authData = parseAuthenticatorData(asBuffer(attestation.get('authData')));
+  checkAuthenticatorData(authData);
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new PasskeyError('invalid_response');
+  }
+  const id = authData.credentialId.toString('base64url');
+  if (id !== response.id) {
+    throw new PasskeyError('invalid_response');
+  }
+  const { key, algorithm } = coseToPublicKey(authData.credentialPublicKey);
+
+  // 3. Store it (an id can only ever belong to one account)
+  if (await credentialStore.find(id)) {
+    throw new PasskeyError('already_registered');
+  }
+  const credential: PasskeyCredential = {
+    id,
+    userId,
+    publicKey: key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+    algorithm,
+    signCount: authData.signCount,
+    transports: Array.isArray(response.response.transports) ? response.response.transports : [],
+    name,
+    createdAt: Date.now(),
+    lastUsedAt: null,
+  };
+  await credentialStore.save(credential);
+  return credential;
+}
+
+/**
+ * Login, step 1: options for navigator.credentials.get()
+ * (PublicKeyCredentialRequestOptionsJSON)
+ *
+ * No allowCredentials: the authenticator offers its passkeys for this site,
+ * so the user doesn't type an email (and we don't reveal which exist)
+ */
+export async function startPasskeyLogin() {
+  return {
+    challenge: await createChallenge('authentication', null),
+    rpId: WEBAUTHN_RP_ID,
+    timeout: tokenPolicy.passkeyChallengeTtl * 1000,
+    userVerification: 'required',
+  };
+}
+
+/**
+ * Login, step 2: check the signature with the stored key
+ * Resolves the credential; its userId is who to log in
+ */
+export async function finishPasskeyLogin(
+  response: AuthenticationResponseJSON
+): Promise<PasskeyCredential> {
+  const { clientDataJSON, authenticatorData, signature, userHandle } = response?.response ?? {};
+  if (
+    typeof clientDataJSON !== 'string' ||
+    typeof authenticatorData !== 'string' ||
+    typeof signature !== 'string'
+  ) {
+    throw new PasskeyError('invalid_response');
+  }
+
+  // 1. Client data: our challenge, from our origin
+  await checkClientData(parseClientData(clientDataJSON), 'authentication');
+
+  // 2. A credential we know, for the user it says it is
+  const credential = await credentialStore.find(response.id);
+  if (!credential) {
+    throw new PasskeyError('unknown_credential');
+  }
+  if (userHandle && Buffer.from(userHandle, 'base64url').toString() !== credential.userId) {
+    throw new PasskeyError('unknown_credential');
+  }
+
+  // 3. Authenticator data for our RP, signed together with the client data
+  const authDataBytes = Buffer.from(authenticatorData, 'base64url');
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData);
+
+  const signedData = Buffer.concat([
+    authDataBytes,
+    crypto.createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest(),
+  ]);
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.from(credential.publicKey, 'base64url'),
+    format: 'der',
+    type: 'spki',
+  });
+  // ES256 signatures are DER-encoded, which is node's default for ECDSA
+  const valid = crypto.verify(
+    'sha256',
+    signedData,
+    publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) {
+    throw new PasskeyError('invalid_signature');
+  }
+
+  // 4. The counter must go up: one that doesn't means a cloned
+  //    authenticator (many synced passkeys always send 0, which is fine)
+  const usedAt = Date.now();
+  if (!(await credentialStore.updateSignCount(credential.id, authData.signCount, usedAt))) {
+    throw new PasskeyError('sign_count_mismatch');
+  }
+  return { ...credential, signCount: authData.signCount, lastUsedAt: usedAt };
+}
+
+/**
+ * Usage example:
+ *
+ * // Registration (logged in)
+ * const options = await startPasskeyRegistration(req.user);
+ * // browser: const credential = await navigator.credentials.create({
+ * //   publicKey: PublicKeyCredential.parseCreationOptionsFromJSON(options),
+ * // });
+ * await finishPasskeyRegistration(req.user.id, credential.toJSON(), 'MacBook');
+ *
+ * // Login
+ * const options = await startPasskeyLogin();
+ * // browser: navigator.credentials.get({
+ * //   publicKey: PublicKeyCredential.parseRequestOptionsFromJSON(options),
+ * // });
+ * const { userId } = await finishPasskeyLogin(credential.toJSON());
+ */
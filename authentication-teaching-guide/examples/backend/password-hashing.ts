@@ -0,0 +1,57 @@
+/**
+ * Password Hashing
+ *
+ * This example shows password hashing with bcrypt and a configurable
+ * cost factor (BCRYPT_COST). Each +1 doubles the work: pick the highest
+ * cost that keeps login under ~250ms on your servers, and use a low one
+ * in tests.
+ *
+ * Login checks a password even when the email is unknown, so response
+ * times don't reveal which emails have accounts.
+ */
+
+import bcrypt from 'bcryptjs';
+
+const DEFAULT_BCRYPT_COST = 12;
+
+/**
+ * bcrypt cost factor (4-31)
+ */
+export function getBcryptCost(): number {
+  const cost = Number(process.env.BCRYPT_COST);
+  return Number.isInteger(cost) && cost >= 4 && cost <= 31 ? cost : DEFAULT_BCRYPT_COST;
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, getBcryptCost());
+}
+
+// Compared against when the user doesn't exist, created on first use
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Check a password against a stored hash
+ * Pass null for an unknown user - it still takes as long as a real check
+ */
+export async function verifyPassword(password: string, passwordHash: string | null): Promise<boolean> {
+  if (passwordHash === null) {
+    dummyHash ??= hashPassword('not-a-real-password');
+    await bcrypt.compare(password, await dummyHash);
+    return false;
+  }
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Usage example:
+ *
+ * // Register
+ * const passwordHash = await hashPassword(password);
+ *
+ * // Login
+ * const user = await users.findByEmail(email);
+ * const isValid = await verifyPassword(password, user?.passwordHash ?? null);
+ */
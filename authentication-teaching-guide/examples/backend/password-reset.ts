@@ -0,0 +1,123 @@
+/**
+ * Password Reset
+ *
+ * This example shows the "forgot password" flow:
+ * 1. The user asks for a reset link for their email
+ * 2. If the account exists, a link with a random token is emailed
+ * 3. The user posts the token with a new password
+ * 4. The password changes and every existing session is logged out
+ *
+ * A reset link grants access to the account, so its token is short-lived
+ * (tokenPolicy.passwordResetTokenTtl) and single-use - see
+ * email-link-tokens.ts.
+ */
+
+import { getUserRepository } from './user-repository';
+import { getRefreshTokenStore } from './refresh-token-store';
+import { revokeUserAccessTokens } from './revocation-list';
+import { hashPassword } from './password-hashing';
+import { unlockAccount } from './account-lockout';
+import { getSessionStore } from './sessions';
+import { sendMail } from './mailer';
+import {
+  consumeEmailLinkToken,
+  EmailLinkTokenFailure,
+  EmailLinkTokenStore,
+  InMemoryEmailLinkTokenStore,
+  issueEmailLinkToken,
+} from './email-link-tokens';
+import { tokenPolicy } from '../shared/token-policy';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+let passwordResetStore: EmailLinkTokenStore = new InMemoryEmailLinkTokenStore();
+
+/**
+ * Configure the store used for reset tokens (call once at startup)
+ */
+export function setPasswordResetStore(store: EmailLinkTokenStore): void {
+  passwordResetStore = store;
+}
+
+export type PasswordResetFailure = EmailLinkTokenFailure;
+
+/**
+ * Thrown when a reset token can't be used
+ */
+export class PasswordResetError extends Error {
+  constructor(public readonly reason: PasswordResetFailure) {
+    super(`Password reset failed: ${reason}`);
+    this.name = 'PasswordResetError';
+  }
+}
+
+/**
+ * Email a reset link if the email has an account
+ * Does nothing otherwise - callers must respond the same either way
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await getUserRepository().findByEmail(email);
+  if (!user) return;
+
+  const token = await issueEmailLinkToken(
+    passwordResetStore,
+    user.id,
+    tokenPolicy.passwordResetTokenTtl
+  );
+
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password for this account. Open this link to choose a new one:\n\n${link}\n\n`
+      + `The link works once, for ${tokenPolicy.passwordResetTokenTtl / 60} minutes. `
+      + 'If it wasn\'t you, you can ignore this email.',
+  });
+}
+
+/**
+ * Set a new password with a reset token
+ * Logs out every existing session; throws PasswordResetError if the
+ * token can't be used. Resolves the user's id
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<string> {
+  const userId = await consumeEmailLinkToken(
+    passwordResetStore,
+    token,
+    (reason) => new PasswordResetError(reason)
+  );
+
+  const users = getUserRepository();
+  const user = await users.findById(userId);
+  if (!user) {
+    throw new PasswordResetError('invalid');
+  }
+
+  // New password, and a new token version so every refresh token dies
+  await users.update(user.id, {
+    passwordHash: await hashPassword(newPassword),
+    tokenVersion: user.tokenVersion + 1,
+    // The link arrived at this address, which proves the user owns it
+    emailVerifiedAt: user.emailVerifiedAt ?? Date.now(),
+  });
+
+  // Access tokens and refresh tokens don't wait to expire
+  await revokeUserAccessTokens(user.id, user.tokenVersion + 1);
+  await getRefreshTokenStore().revokeAllForUser(user.id);
+  await getSessionStore().revokeAllForUser(user.id, Date.now());
+
+  // Proving email ownership is the user's own unlock path
+  await unlockAccount(user.email);
+  return user.id;
+}
+
+/**
+ * Usage example:
+ *
+ * // POST /api/auth/forgot-password { email }
+ * await requestPasswordReset(email);
+ * res.status(202).json({ message: 'If that email has an account, a reset link is on its way' });
+ *
+ * // POST /api/auth/reset-password { token, password }
+ * await resetPassword(token, password);
+ */
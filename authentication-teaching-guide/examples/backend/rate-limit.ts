@@ -0,0 +1,191 @@
+/**
+ * Rate Limiting
+ *
+ * This example shows fixed-window rate limiting for Express routes:
+ * - Each key (an IP address, an account, ...) gets `limit` requests per window
+ * - Over the limit, the response is `429 Too Many Requests` with a
+ *   `Retry-After` header saying how many seconds to wait
+ *
+ * Counters live in a pluggable store. The in-memory store only works for
+ * a single process; behind a load balancer use Redis so every instance
+ * shares the same counts.
+ *
+ * Behind a proxy, set `app.set('trust proxy', 1)` so req.ip is the
+ * client's address and not the proxy's.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+
+export interface Counter {
+  count: number;
+  resetAt: number; // ms since epoch
+}
+
+/**
+ * Storage backend for counters
+ */
+export interface CounterStore {
+  /** Add one; starts a new window if the key has none */
+  increment(key: string, windowMs: number): Promise<Counter>;
+  get(key: string): Promise<Counter | null>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryCounterStore implements CounterStore {
+  private counters = new Map<string, Counter>();
+
+  async increment(key: string, windowMs: number): Promise<Counter> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || now >= counter.resetAt) {
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+    counter.count += 1;
+    return { ...counter };
+  }
+
+  async get(key: string): Promise<Counter | null> {
+    const counter = this.counters.get(key);
+    if (!counter) return null;
+
+    if (Date.now() >= counter.resetAt) {
+      this.counters.delete(key);
+      return null;
+    }
+    return { ...counter };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
+
+/**
+ * The subset of the Redis client API we need (ioredis-compatible)
+ */
+export interface RedisCounterClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, ttlMs: number): Promise<unknown>;
+  pttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Redis-backed store - shared by every API instance
+ * (INCR is atomic, so concurrent requests can't both sneak under the limit)
+ *
+ * const store = new RedisCounterStore(new Redis(process.env.REDIS_URL));
+ */
+export class RedisCounterStore implements CounterStore {
+  constructor(private client: RedisCounterClient, private prefix = 'ratelimit:') {}
+
+  async increment(key: string, windowMs: number): Promise<Counter> {
+    const count = await this.client.incr(this.prefix + key);
+    if (count === 1) {
+      await this.client.pexpire(this.prefix + key, windowMs);
+    }
+
+    const ttlMs = await this.client.pttl(this.prefix + key);
+    return { count, resetAt: Date.now() + Math.max(ttlMs, 0) };
+  }
+
+  async get(key: string): Promise<Counter | null> {
+    const value = await this.client.get(this.prefix + key);
+    if (value === null) return null;
+
+    const ttlMs = await this.client.pttl(this.prefix + key);
+    return { count: Number(value), resetAt: Date.now() + Math.max(ttlMs, 0) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+let counterStore: CounterStore = new InMemoryCounterStore();
+
+/**
+ * Configure the store used for rate limits and lockouts (call once at startup)
+ */
+export function setCounterStore(store: CounterStore): void {
+  counterStore = store;
+}
+
+export function getCounterStore(): CounterStore {
+  return counterStore;
+}
+
+/**
+ * Send 429 with Retry-After (whole seconds, rounded up)
+ */
+export function sendTooManyRequests(
+  res: Response,
+  retryAt: number,
+  code: 'rate_limited' | 'account_locked' = 'rate_limited'
+) {
+  const retryAfter = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+
+  return res
+    .status(429)
+    .set('Retry-After', String(retryAfter))
+    .json({
+      error: code === 'account_locked'
+        ? 'Too many failed attempts. Try again later.'
+        : 'Too many requests. Try again later.',
+      code,
+      retryAfter,
+    });
+}
+
+export interface RateLimitOptions {
+  /** Namespace for the counters, e.g. 'login-ip' */
+  name: string;
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+  /** What to count by (client IP by default); return null to skip */
+  key?: (req: Request) => string | null;
+}
+
+/**
+ * Middleware that allows `limit` requests per key per window
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const getKey = options.key ?? ((req: Request) => req.ip ?? null);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = getKey(req);
+    if (key === null) return next();
+
+    try {
+      const counter = await counterStore.increment(`${options.name}:${key}`, options.windowMs);
+      if (counter.count > options.limit) {
+        return sendTooManyRequests(res, counter.resetAt);
+      }
+      next();
+    } catch (error) {
+      // Fail open: a broken counter store shouldn't take login down
+      console.error('Rate limit error:', error);
+      next();
+    }
+  };
+}
+
+/**
+ * Usage example:
+ *
+ * // 20 login attempts per IP per 15 minutes
+ * router.post('/login',
+ *   rateLimit({ name: 'login-ip', limit: 20, windowMs: 15 * 60 * 1000 }),
+ *   loginHandler
+ * );
+ *
+ * // Production: share counters between instances
+ * setCounterStore(new RedisCounterStore(new Redis(process.env.REDIS_URL)));
+ */
@@ -0,0 +1,240 @@
+/**
+ * Refresh Token Store with Rotation and Reuse Detection
+ *
+ * This example shows how to track refresh tokens on the server so that:
+ * - Every refresh token can be used exactly once (rotation)
+ * - Tokens issued from the same login form a "family"
+ * - Replaying an already-rotated token revokes the whole family
+ *   (someone stole a token - log out both the thief and the user)
+ *
+ * Only token ids are stored, never the tokens themselves.
+ */
+
+import type { Database } from 'better-sqlite3';
+import { decodeToken, RefreshTokenPayload } from './token-utils';
+
+export interface StoredRefreshToken {
+  jti: string;
+  familyId: string;
+  userId: string;
+  expiresAt: number; // ms since epoch
+  rotatedAt: number | null; // set once the token has been exchanged
+  revokedAt: number | null; // set on logout or reuse detection
+}
+
+/**
+ * Storage backend for refresh tokens
+ * Implement this for your database (Postgres, Redis, ...)
+ */
+export interface RefreshTokenStore {
+  save(token: StoredRefreshToken): Promise<void>;
+  find(jti: string): Promise<StoredRefreshToken | null>;
+  /** Mark as used; resolves false if it was already used (atomic check-and-set) */
+  markRotated(jti: string): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeAllForUser(userId: string): Promise<void>;
+}
+
+/**
+ * Thrown when a refresh token that was already rotated is presented again
+ */
+export class RefreshTokenReuseError extends Error {
+  constructor(public readonly familyId: string) {
+    super('Refresh token reuse detected');
+    this.name = 'RefreshTokenReuseError';
+  }
+}
+
+/**
+ * Thrown when a refresh token is unknown or its family was revoked
+ * (logout, log out everywhere, a revoked session)
+ */
+export class RefreshTokenRevokedError extends Error {
+  constructor() {
+    super('Refresh token revoked');
+    this.name = 'RefreshTokenRevokedError';
+  }
+}
+
+/**
+ * In-memory store (single process, lost on restart - good for development)
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private tokens = new Map<string, StoredRefreshToken>();
+
+  async save(token: StoredRefreshToken): Promise<void> {
+    this.tokens.set(token.jti, { ...token });
+  }
+
+  async find(jti: string): Promise<StoredRefreshToken | null> {
+    const token = this.tokens.get(jti);
+    return token ? { ...token } : null;
+  }
+
+  async markRotated(jti: string): Promise<boolean> {
+    const token = this.tokens.get(jti);
+    if (!token || token.rotatedAt !== null) return false;
+
+    token.rotatedAt = Date.now();
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    this.revokeWhere((token) => token.familyId === familyId);
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    this.revokeWhere((token) => token.userId === userId);
+  }
+
+  private revokeWhere(match: (token: StoredRefreshToken) => boolean) {
+    const now = Date.now();
+    for (const token of this.tokens.values()) {
+      if (match(token) && token.revokedAt === null) token.revokedAt = now;
+    }
+  }
+}
+
+interface RefreshTokenRow {
+  jti: string;
+  family_id: string;
+  user_id: string;
+  expires_at: number;
+  rotated_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * SQLite store (better-sqlite3)
+ *
+ * const store = new SqliteRefreshTokenStore(new Database('auth.db'));
+ */
+export class SqliteRefreshTokenStore implements RefreshTokenStore {
+  constructor(private db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        jti TEXT PRIMARY KEY,
+        family_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        rotated_at INTEGER,
+        revoked_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens (family_id);
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens (user_id);
+    `);
+  }
+
+  async save(token: StoredRefreshToken): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO refresh_tokens (jti, family_id, user_id, expires_at, rotated_at, revoked_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(token.jti, token.familyId, token.userId, token.expiresAt, token.rotatedAt, token.revokedAt);
+  }
+
+  async find(jti: string): Promise<StoredRefreshToken | null> {
+    const row = this.db
+      .prepare('SELECT * FROM refresh_tokens WHERE jti = ?')
+      .get(jti) as RefreshTokenRow | undefined;
+
+    if (!row) return null;
+    return {
+      jti: row.jti,
+      familyId: row.family_id,
+      userId: row.user_id,
+      expiresAt: row.expires_at,
+      rotatedAt: row.rotated_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  async markRotated(jti: string): Promise<boolean> {
+    // The WHERE clause makes this safe against two concurrent refreshes
+    const result = this.db
+      .prepare('UPDATE refresh_tokens SET rotated_at = ? WHERE jti = ? AND rotated_at IS NULL')
+      .run(Date.now(), jti);
+    return result.changes === 1;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    this.db
+      .prepare('UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL')
+      .run(Date.now(), familyId);
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    this.db
+      .prepare('UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+      .run(Date.now(), userId);
+  }
+}
+
+let refreshTokenStore: RefreshTokenStore = new InMemoryRefreshTokenStore();
+
+/**
+ * Configure the store used by the auth routes (call once at startup)
+ */
+export function setRefreshTokenStore(store: RefreshTokenStore): void {
+  refreshTokenStore = store;
+}
+
+export function getRefreshTokenStore(): RefreshTokenStore {
+  return refreshTokenStore;
+}
+
+/**
+ * Remember a newly issued refresh token
+ */
+export async function recordRefreshToken(refreshToken: string): Promise<void> {
+  const payload = decodeToken(refreshToken);
+  if (payload?.type !== 'refresh' || payload.exp === undefined) {
+    throw new Error('Not a refresh token');
+  }
+
+  await refreshTokenStore.save({
+    jti: payload.jti,
+    familyId: payload.familyId,
+    userId: payload.sub,
+    expiresAt: payload.exp * 1000,
+    rotatedAt: null,
+    revokedAt: null,
+  });
+}
+
+/**
+ * Use up a (signature-verified) refresh token before issuing a new one
+ * Throws RefreshTokenRevokedError for a revoked token, and
+ * RefreshTokenReuseError (revoking the family) on replay
+ */
+export async function consumeRefreshToken(payload: RefreshTokenPayload): Promise<void> {
+  const stored = await refreshTokenStore.find(payload.jti);
+  if (!stored || stored.revokedAt !== null) {
+    throw new RefreshTokenRevokedError();
+  }
+
+  const rotated = await refreshTokenStore.markRotated(payload.jti);
+  if (!rotated) {
+    await refreshTokenStore.revokeFamily(stored.familyId);
+    throw new RefreshTokenReuseError(stored.familyId);
+  }
+}
+
+/**
+ * Usage example:
+ *
+ * import Database from 'better-sqlite3';
+ *
+ * // At startup
+ * setRefreshTokenStore(new SqliteRefreshTokenStore(new Database('auth.db')));
+ *
+ * // On refresh
+ * const decoded = verifyRefreshToken(refreshToken);
+ * await consumeRefreshToken(decoded); // throws if revoked or reused
+ * // Same family and login time; the core records the new refresh token
+ * const tokens = await authCore.issueTokens(user, {
+ *   familyId: decoded.familyId,
+ *   authTime: decoded.authTime,
+ * });
+ */
@@ -0,0 +1,155 @@
+/**
+ * Access Token Revocation List (jti denylist)
+ *
+ * Access tokens are stateless, so logging out normally leaves them valid
+ * until they expire. This example keeps a short-lived denylist that
+ * authenticateToken checks on every request:
+ * - Revoke one token by its `jti` (logout)
+ * - Revoke every token issued to a user before their tokenVersion was
+ *   bumped (admin ban, log out everywhere, password reset)
+ *
+ * Entries only need to live as long as the token they block, so every
+ * entry has a TTL and the list stays small.
+ */
+
+import { getMaxAccessTokenTtl, tokenPolicy } from '../shared/token-policy';
+
+export interface RevocationStore {
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  get(key: string): Promise<string | null>;
+}
+
+/**
+ * In-memory store (single process - good for development)
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+/**
+ * The subset of the Redis client API we need (ioredis-compatible)
+ */
+export interface RedisLikeClient {
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+}
+
+/**
+ * Redis-backed store - shared by every API instance
+ *
+ * const store = new RedisRevocationStore(new Redis(process.env.REDIS_URL));
+ */
+export class RedisRevocationStore implements RevocationStore {
+  constructor(private client: RedisLikeClient, private prefix = 'revoked:') {}
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'PX', ttlMs);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+}
+
+/**
+ * Local stand-in for a Redis server, so the Redis code path runs
+ * on a laptop or in tests without installing Redis
+ */
+export class LocalRedis implements RedisLikeClient {
+  private data = new Map<string, { value: string; expiresAt: number }>();
+
+  async set(key: string, value: string, _mode: 'PX', ttlMs: number): Promise<'OK'> {
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry || Date.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+let revocationStore: RevocationStore = new InMemoryRevocationStore();
+
+/**
+ * Configure the store used by authenticateToken (call once at startup)
+ */
+export function setRevocationStore(store: RevocationStore): void {
+  revocationStore = store;
+}
+
+/**
+ * Revoke a single access token until it would have expired anyway
+ */
+export async function revokeAccessToken(jti: string, expiresAt: number): Promise<void> {
+  // Verifiers still accept the token for `clockSkewLeeway` after it expires
+  const ttlMs = expiresAt + tokenPolicy.clockSkewLeeway * 1000 - Date.now();
+  if (ttlMs <= 0) return; // Already expired
+
+  await revocationStore.set(`jti:${jti}`, '1', ttlMs);
+}
+
+/**
+ * Revoke every access token issued to a user with an older tokenVersion
+ *
+ * Tokens carry the version rather than being compared by `iat`: `iat` is
+ * in whole seconds, so it can't tell a token issued just before the
+ * revoke from a fresh login in the same second.
+ */
+export async function revokeUserAccessTokens(userId: string, tokenVersion: number): Promise<void> {
+  await revocationStore.set(
+    `user:${userId}`,
+    String(tokenVersion),
+    // Must outlast every token issued before the ban
+    getMaxAccessTokenTtl() * 1000
+  );
+}
+
+/**
+ * Check a verified access token against the denylist
+ */
+export async function isAccessTokenRevoked(token: {
+  jti: string;
+  sub: string;
+  tokenVersion: number;
+}): Promise<boolean> {
+  if (await revocationStore.get(`jti:${token.jti}`)) {
+    return true;
+  }
+
+  const currentVersion = await revocationStore.get(`user:${token.sub}`);
+  return currentVersion !== null && token.tokenVersion < Number(currentVersion);
+}
+
+/**
+ * Usage example:
+ *
+ * // Development: default in-memory store
+ * // Production: setRevocationStore(new RedisRevocationStore(new Redis()));
+ * // Local Redis code path: setRevocationStore(new RedisRevocationStore(new LocalRedis()));
+ *
+ * // On logout
+ * await revokeAccessToken(req.auth!.jti, req.auth!.expiresAt);
+ *
+ * // On admin ban, after bumping the user's tokenVersion
+ * await revokeUserAccessTokens(userId, user.tokenVersion + 1);
+ */
@@ -0,0 +1,328 @@
+/**
+ * Per-Device Sessions
+ *
+ * This example shows how to let users (and support staff) see where an
+ * account is logged in, and log a device out:
+ * - Every login starts a session: device name, user agent, IP, created-at
+ *   and last-refresh time
+ * - A session IS a refresh token family - its id is the `familyId` every
+ *   rotated refresh token carries, so no extra claim is needed
+ * - Revoking a session revokes its family: that device can't refresh again
+ * - "Log out everywhere" increments the user's tokenVersion, which kills
+ *   every refresh token, and revokes every access token and session
+ *
+ * A revoked device keeps a JWT access token until it expires (minutes);
+ * use "log out everywhere" when that is too long.
+ */
+
+import type { Database } from 'better-sqlite3';
+import { newRefreshSession, RefreshSession } from './token-utils';
+import { getUserRepository } from './user-repository';
+import { getRefreshTokenStore } from './refresh-token-store';
+import { revokeUserAccessTokens } from './revocation-list';
+import { getOpaqueTokenStore } from './opaque-token-store';
+import { getTokenLifetimes } from '../shared/token-policy';
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+export interface SessionRecord {
+  id: string; // The refresh token familyId
+  userId: string;
+  deviceName: string | null; // Chosen by the client, e.g. "Ada's iPhone"
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number; // ms since epoch
+  lastRefreshedAt: number | null;
+  expiresAt: number; // When the refresh token's absolute lifetime ends
+  revokedAt: number | null;
+}
+
+/**
+ * What the client tells us about the device at login
+ */
+export interface SessionDevice {
+  deviceName?: unknown; // Untrusted request input
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * Session as shown to users (no internal fields)
+ */
+export interface SessionSummary {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastRefreshedAt: number | null;
+}
+
+/**
+ * Storage backend for sessions
+ * Implement this for your database (Postgres, Redis, ...)
+ */
+export interface SessionStore {
+  save(session: SessionRecord): Promise<void>;
+  find(id: string): Promise<SessionRecord | null>;
+  listForUser(userId: string): Promise<SessionRecord[]>;
+  touch(id: string, refreshedAt: number): Promise<void>;
+  revoke(id: string, revokedAt: number): Promise<void>;
+  revokeAllForUser(userId: string, revokedAt: number): Promise<void>;
+}
+
+/**
+ * In-memory store (single process, lost on restart - good for development)
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  async save(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async find(id: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async listForUser(userId: string): Promise<SessionRecord[]> {
+    return [...this.sessions.values()]
+      .filter((session) => session.userId === userId)
+      .map((session) => ({ ...session }));
+  }
+
+  async touch(id: string, refreshedAt: number): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) session.lastRefreshedAt = refreshedAt;
+  }
+
+  async revoke(id: string, revokedAt: number): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session && session.revokedAt === null) session.revokedAt = revokedAt;
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: number): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId && session.revokedAt === null) {
+        session.revokedAt = revokedAt;
+      }
+    }
+  }
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: number;
+  last_refreshed_at: number | null;
+  expires_at: number;
+  revoked_at: number | null;
+}
+
+function fromRow(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    deviceName: row.device_name,
+    userAgent: row.user_agent,
+    ip: row.ip,
+    createdAt: row.created_at,
+    lastRefreshedAt: row.last_refreshed_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+/**
+ * SQLite store (better-sqlite3)
+ *
+ * const store = new SqliteSessionStore(new Database('auth.db'));
+ */
+export class SqliteSessionStore implements SessionStore {
+  constructor(private db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        device_name TEXT,
+        user_agent TEXT,
+        ip TEXT,
+        created_at INTEGER NOT NULL,
+        last_refreshed_at INTEGER,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);
+    `);
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO sessions
+           (id, user_id, device_name, user_agent, ip,
+            created_at, last_refreshed_at, expires_at, revoked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        session.id,
+        session.userId,
+        session.deviceName,
+        session.userAgent,
+        session.ip,
+        session.createdAt,
+        session.lastRefreshedAt,
+        session.expiresAt,
+        session.revokedAt
+      );
+  }
+
+  async find(id: string): Promise<SessionRecord | null> {
+    const row = this.db
+      .prepare('SELECT * FROM sessions WHERE id = ?')
+      .get(id) as SessionRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async listForUser(userId: string): Promise<SessionRecord[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as SessionRow[];
+    return rows.map(fromRow);
+  }
+
+  async touch(id: string, refreshedAt: number): Promise<void> {
+    this.db.prepare('UPDATE sessions SET last_refreshed_at = ? WHERE id = ?').run(refreshedAt, id);
+  }
+
+  async revoke(id: string, revokedAt: number): Promise<void> {
+    this.db
+      .prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+      .run(revokedAt, id);
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: number): Promise<void> {
+    this.db
+      .prepare('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+      .run(revokedAt, userId);
+  }
+}
+
+let sessionStore: SessionStore = new InMemorySessionStore();
+
+/**
+ * Configure the store used for sessions (call once at startup)
+ */
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store;
+}
+
+export function getSessionStore(): SessionStore {
+  return sessionStore;
+}
+
+export function toSessionSummary(session: SessionRecord): SessionSummary {
+  return {
+    id: session.id,
+    deviceName: session.deviceName,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastRefreshedAt: session.lastRefreshedAt,
+  };
+}
+
+function cleanDeviceName(deviceName: unknown): string | null {
+  if (typeof deviceName !== 'string' || !deviceName.trim()) return null;
+  return deviceName.trim().slice(0, MAX_DEVICE_NAME_LENGTH);
+}
+
+/**
+ * Record a new login and return the refresh session to issue tokens in
+ */
+export async function startSession(
+  user: { id: string; role: string },
+  device: SessionDevice
+): Promise<RefreshSession> {
+  const refreshSession = newRefreshSession();
+
+  await sessionStore.save({
+    id: refreshSession.familyId,
+    userId: user.id,
+    deviceName: cleanDeviceName(device.deviceName),
+    userAgent: device.userAgent ?? null,
+    ip: device.ip ?? null,
+    createdAt: Date.now(),
+    lastRefreshedAt: null,
+    expiresAt:
+      (refreshSession.authTime + getTokenLifetimes(user.role).refreshTokenAbsoluteTtl) * 1000,
+    revokedAt: null,
+  });
+
+  return refreshSession;
+}
+
+/**
+ * Sessions that can still refresh, oldest first
+ */
+export async function listActiveSessions(userId: string): Promise<SessionRecord[]> {
+  const now = Date.now();
+  const sessions = await sessionStore.listForUser(userId);
+
+  return sessions
+    .filter((session) => session.revokedAt === null && session.expiresAt > now)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Log one device out
+ * Resolves false if the session doesn't exist or isn't the user's
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const session = await sessionStore.find(sessionId);
+  if (!session || session.userId !== userId) return false;
+
+  await getRefreshTokenStore().revokeFamily(session.id);
+  await sessionStore.revoke(session.id, Date.now());
+  return true;
+}
+
+/**
+ * Log every device out, effective immediately
+ */
+export async function logOutEverywhere(userId: string): Promise<void> {
+  const users = getUserRepository();
+  const user = await users.findById(userId);
+
+  // Every token carries the old version, so none can refresh or be used again
+  if (user) {
+    await users.update(user.id, { tokenVersion: user.tokenVersion + 1 });
+    await revokeUserAccessTokens(user.id, user.tokenVersion + 1);
+  }
+
+  await getOpaqueTokenStore().deleteAllForUser(userId);
+  await getRefreshTokenStore().revokeAllForUser(userId);
+  await sessionStore.revokeAllForUser(userId, Date.now());
+}
+
+/**
+ * Usage example:
+ *
+ * // On login - tokens join the session's refresh token family
+ * const session = await startSession(user, {
+ *   deviceName: req.body.deviceName,
+ *   userAgent: req.get('user-agent'),
+ *   ip: req.ip,
+ * });
+ * const tokens = await authCore.issueTokens(user, session);
+ *
+ * // On refresh
+ * await getSessionStore().touch(decoded.familyId, Date.now());
+ *
+ * // "Where am I logged in?"
+ * const sessions = (await listActiveSessions(userId)).map(toSessionSummary);
+ */
@@ -0,0 +1,159 @@
+/**
+ * Asymmetric Signing Keys with Rotation
+ *
+ * This example shows how to sign tokens with a private key (RS256/ES256)
+ * and publish only the public keys, so other services can verify tokens
+ * without ever holding the signing secret.
+ *
+ * Rotation model:
+ * - Exactly one key is "active" and signs new tokens
+ * - Older keys stay "verify-only" until every token they signed has expired
+ * - Every token carries the `kid` (key id) of the key that signed it
+ */
+
+import crypto, { KeyObject } from 'crypto';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  status: 'active' | 'verify-only';
+  createdAt: number;
+}
+
+export interface PublicJwk {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+  kty: string;
+  [param: string]: unknown;
+}
+
+const DEFAULT_ALGORITHM: SigningAlgorithm =
+  (process.env.JWT_ALGORITHM as SigningAlgorithm) || 'RS256';
+
+// In production, load keys from a secrets manager / KMS instead
+const keys = new Map<string, SigningKey>();
+
+/**
+ * Create a new key pair for the given algorithm
+ */
+export function createSigningKey(
+  alg: SigningAlgorithm = DEFAULT_ALGORITHM
+): SigningKey {
+  const { privateKey, publicKey } =
+    alg === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid: crypto.randomUUID(),
+    alg,
+    privateKey,
+    publicKey,
+    status: 'active',
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Load the initial key from PEM environment variables
+ * (JWT_PRIVATE_KEY + JWT_KEY_ID), or generate one for local development
+ */
+function loadInitialKey(): SigningKey {
+  const pem = process.env.JWT_PRIVATE_KEY;
+  if (!pem) {
+    return createSigningKey();
+  }
+
+  const privateKey = crypto.createPrivateKey(pem);
+  return {
+    kid: process.env.JWT_KEY_ID || 'default',
+    alg: DEFAULT_ALGORITHM,
+    privateKey,
+    publicKey: crypto.createPublicKey(privateKey),
+    status: 'active',
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Get the key that signs new tokens
+ */
+export function getActiveSigningKey(): SigningKey {
+  for (const key of keys.values()) {
+    if (key.status === 'active') return key;
+  }
+
+  const key = loadInitialKey();
+  keys.set(key.kid, key);
+  return key;
+}
+
+/**
+ * Find the key a token was signed with (by its `kid` header)
+ */
+export function getVerificationKey(kid: string): SigningKey | undefined {
+  return keys.get(kid);
+}
+
+/**
+ * Rotate keys: the new key starts signing immediately,
+ * the previous active key becomes verify-only
+ */
+export function rotateSigningKey(
+  alg: SigningAlgorithm = DEFAULT_ALGORITHM
+): SigningKey {
+  for (const key of keys.values()) {
+    if (key.status === 'active') key.status = 'verify-only';
+  }
+
+  const key = createSigningKey(alg);
+  keys.set(key.kid, key);
+  return key;
+}
+
+/**
+ * Remove a verify-only key once all tokens it signed have expired
+ * (wait at least the refresh token lifetime after rotating)
+ */
+export function retireSigningKey(kid: string): boolean {
+  const key = keys.get(kid);
+  if (!key || key.status === 'active') return false;
+
+  return keys.delete(kid);
+}
+
+/**
+ * Public keys as a JSON Web Key Set (RFC 7517)
+ * Never includes private key material
+ */
+export function getJwks(): { keys: PublicJwk[] } {
+  // Make sure there is at least one key to publish
+  getActiveSigningKey();
+
+  return {
+    keys: Array.from(keys.values()).map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    } as PublicJwk)),
+  };
+}
+
+/**
+ * Usage example:
+ *
+ * // Generate a key for production (once):
+ * // openssl genpkey -algorithm RSA -pkeyopt rsa_keygen_bits:2048 -out private.pem
+ * // JWT_PRIVATE_KEY="$(cat private.pem)" JWT_KEY_ID=2024-01
+ *
+ * // Scheduled rotation job
+ * const previous = getActiveSigningKey();
+ * rotateSigningKey();
+ * setTimeout(() => retireSigningKey(previous.kid), SEVEN_DAYS_MS);
+ */
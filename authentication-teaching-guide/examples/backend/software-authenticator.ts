@@ -0,0 +1,269 @@
+/**
+ * Software Passkey Authenticator
+ *
+ * This example is an authenticator (and the browser part of WebAuthn) in
+ * plain code, for trying and testing passkeys.ts without a browser,
+ * Touch ID or a security key:
+ * - create() answers registration options like navigator.credentials.create()
+ * - get() answers login options like navigator.credentials.get()
+ * Both return what PublicKeyCredential.toJSON() would send to the server.
+ *
+ * Keys are ES256 (P-256) and live in memory. `origin` is the page the
+ * "browser" is on - change it to play a phishing page - and
+ * setSignCount() fakes a cloned authenticator.
+ *
+ * Never use this for real accounts - it reports a user as verified
+ * without asking anyone.
+ */
+
+import crypto from 'crypto';
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+const COSE_ES256 = -7;
+
+type CborInput = number | string | Buffer | CborInput[] | Map<CborInput, CborInput>;
+
+/**
+ * CBOR head: major type and length (or value) in the shortest form
+ */
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = (major << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+  const head = Buffer.alloc(5);
+  head[0] = (major << 5) | 26;
+  head.writeUInt32BE(length, 1);
+  return head;
+}
+
+function encodeCbor(value: CborInput): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const text = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, text.length), text]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([cborHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  const entries = [...value.entries()].flatMap(([key, item]) => [
+    encodeCbor(key),
+    encodeCbor(item),
+  ]);
+  return Buffer.concat([cborHead(5, value.size), ...entries]);
+}
+
+interface SoftwareCredential {
+  id: Buffer;
+  rpId: string;
+  userHandle: string; // base64url
+  privateKey: crypto.KeyObject;
+  signCount: number;
+}
+
+export interface SoftwareAuthenticatorOptions {
+  /** The page the requests come from (default: the app's origin) */
+  origin?: string;
+  /** Whether the authenticator keeps a signature counter (default: true) */
+  countSignatures?: boolean;
+}
+
+/**
+ * The parts of PublicKeyCredentialCreationOptionsJSON used here
+ */
+export interface CreationOptions {
+  challenge: string;
+  rp: { id?: string };
+  user: { id: string };
+  pubKeyCredParams: { alg: number }[];
+  excludeCredentials?: { id: string }[];
+}
+
+/**
+ * The parts of PublicKeyCredentialRequestOptionsJSON used here
+ */
+export interface RequestOptions {
+  challenge: string;
+  rpId?: string;
+  allowCredentials?: { id: string }[];
+}
+
+export class SoftwareAuthenticator {
+  /** The page the "browser" is on; it goes into the signed client data */
+  origin: string;
+  private credentials: SoftwareCredential[] = [];
+  private countSignatures: boolean;
+
+  constructor(options: SoftwareAuthenticatorOptions = {}) {
+    this.origin = options.origin ?? (process.env.APP_URL || 'http://localhost:3000');
+    this.countSignatures = options.countSignatures ?? true;
+  }
+
+  private clientDataJSON(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false })
+    );
+  }
+
+  private rpIdOrDefault(rpId: string | undefined): string {
+    return rpId ?? new URL(this.origin).hostname;
+  }
+
+  /**
+   * Make a new key pair, like navigator.credentials.create()
+   */
+  async create(options: CreationOptions) {
+    if (!options.pubKeyCredParams.some((param) => param.alg === COSE_ES256)) {
+      throw new Error('NotSupportedError: only ES256 is supported');
+    }
+    const excluded = new Set((options.excludeCredentials ?? []).map((credential) => credential.id));
+    if (this.credentials.some((credential) => excluded.has(credential.id.toString('base64url')))) {
+      throw new Error('InvalidStateError: already registered with this authenticator');
+    }
+
+    const rpId = this.rpIdOrDefault(options.rp.id);
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const credential: SoftwareCredential = {
+      id: crypto.randomBytes(16),
+      rpId,
+      userHandle: options.user.id,
+      privateKey,
+      signCount: 0,
+    };
+    this.credentials.push(credential);
+
+    // COSE_Key: kty EC2, alg ES256, crv P-256, x, y
+    const jwk = publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<CborInput, CborInput>([
+      [1, 2],
+      [3, COSE_ES256],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]);
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credential.id.length);
+    const authenticatorData = Buffer.concat([
+      this.authenticatorDataHead(rpId, FLAG_ATTESTED_CREDENTIAL, credential.signCount),
+      Buffer.alloc(16), // AAGUID: all zeros, like most software authenticators
+      idLength,
+      credential.id,
+      encodeCbor(coseKey),
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authenticatorData],
+      ])
+    );
+
+    const clientDataJSON = this.clientDataJSON('webauthn.create', options.challenge);
+    const id = credential.id.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+      authenticatorAttachment: 'platform',
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * Sign a login challenge, like navigator.credentials.get()
+   */
+  async get(options: RequestOptions) {
+    const rpId = this.rpIdOrDefault(options.rpId);
+    const allowed = options.allowCredentials?.map((credential) => credential.id);
+    const credential = this.credentials.find(
+      (candidate) =>
+        candidate.rpId === rpId &&
+        (!allowed || allowed.includes(candidate.id.toString('base64url')))
+    );
+    if (!credential) {
+      throw new Error('NotAllowedError: no passkey for this site');
+    }
+
+    if (this.countSignatures) credential.signCount += 1;
+    const authenticatorData = this.authenticatorDataHead(rpId, 0, credential.signCount);
+    const clientDataJSON = this.clientDataJSON('webauthn.get', options.challenge);
+    const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([authenticatorData, clientDataHash]),
+      credential.privateKey
+    );
+
+    const id = credential.id.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: credential.userHandle,
+      },
+      authenticatorAttachment: 'platform',
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * Set a credential's counter - e.g. back to an old value, as a clone would
+   */
+  setSignCount(id: string, signCount: number): void {
+    const credential = this.credentials.find(
+      (candidate) => candidate.id.toString('base64url') === id
+    );
+    if (credential) credential.signCount = signCount;
+  }
+
+  /**
+   * RP ID hash (32) | flags (1) | counter (4) - always present and verified
+   */
+  private authenticatorDataHead(rpId: string, flags: number, signCount: number): Buffer {
+    const head = Buffer.alloc(37);
+    crypto.createHash('sha256').update(rpId).digest().copy(head, 0);
+    head[32] = FLAG_USER_PRESENT | FLAG_USER_VERIFIED | flags;
+    head.writeUInt32BE(signCount, 33);
+    return head;
+  }
+}
+
+/**
+ * Usage example:
+ *
+ * const authenticator = new SoftwareAuthenticator();
+ *
+ * // Register (logged in)
+ * const options = await post('/api/auth/passkeys/register/options', {}, accessToken);
+ * const credential = await authenticator.create(options);
+ * await post('/api/auth/passkeys/register/verify', { credential }, accessToken);
+ *
+ * // Log in
+ * const loginOptions = await post('/api/auth/passkeys/login/options');
+ * const assertion = await authenticator.get(loginOptions);
+ * const tokens = await post('/api/auth/passkeys/login/verify', { credential: assertion });
+ *
+ * // The same passkey, asked for by a phishing site's page
+ * authenticator.origin = 'https://examp1e.com';
+ */
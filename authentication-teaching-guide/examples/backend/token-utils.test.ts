@@ -0,0 +1,173 @@
+/**
+ * Tests: Token Type, Issuer and Audience Enforcement
+ *
+ * Access and refresh tokens are signed with the same key, so the
+ * signature alone can't tell them apart. These tests prove that the
+ * `type`, `iss` and `aud` claims stop one being used as the other.
+ */
+
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import {
+  generateAccessToken,
+  generateOpaqueAccessToken,
+  generateRefreshToken,
+  verifyAccessToken,
+  verifyOpaqueAccessToken,
+  verifyRefreshToken,
+} from './token-utils';
+import { authenticateToken } from './auth-middleware';
+import { getActiveSigningKey } from './signing-keys';
+import { tokenPolicy } from '../shared/token-policy';
+
+const user = { id: '1', email: 'user@example.com', role: 'user', tokenVersion: 0 };
+
+// Sign a token with the real key but arbitrary claims
+function signWith(payload: object, options: jwt.SignOptions = {}): string {
+  const key = getActiveSigningKey();
+  return jwt.sign(payload, key.privateKey, {
+    algorithm: key.alg,
+    keyid: key.kid,
+    issuer: 'https://auth.example.com',
+    audience: 'https://api.example.com',
+    expiresIn: '15m',
+    ...options,
+  });
+}
+
+function mockResponse() {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('verifyAccessToken', () => {
+  test('accepts an access token', () => {
+    const payload = verifyAccessToken(generateAccessToken(user));
+
+    expect(payload.sub).toBe('1');
+    expect(payload.type).toBe('access');
+  });
+
+  test('rejects a refresh token', () => {
+    const refreshToken = generateRefreshToken(user);
+
+    expect(() => verifyAccessToken(refreshToken)).toThrow('Expected access token');
+  });
+
+  test('rejects a token without a type claim', () => {
+    const token = signWith({ sub: '1', email: user.email, role: user.role });
+
+    expect(() => verifyAccessToken(token)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  test('rejects a token from another issuer', () => {
+    const token = signWith({ sub: '1', type: 'access' }, { issuer: 'https://evil.example.com' });
+
+    expect(() => verifyAccessToken(token)).toThrow(/issuer invalid/);
+  });
+
+  test('rejects a token for another audience', () => {
+    const token = signWith({ sub: '1', type: 'access' }, { audience: 'https://other.example.com' });
+
+    expect(() => verifyAccessToken(token)).toThrow(/audience invalid/);
+  });
+});
+
+describe('verifyRefreshToken', () => {
+  test('accepts a refresh token', () => {
+    const payload = verifyRefreshToken(generateRefreshToken(user));
+
+    expect(payload.sub).toBe('1');
+    expect(payload.type).toBe('refresh');
+  });
+
+  test('rejects an access token', () => {
+    const accessToken = generateAccessToken(user);
+
+    expect(() => verifyRefreshToken(accessToken)).toThrow('Expected refresh token');
+  });
+});
+
+describe('authenticateToken', () => {
+  test('calls next for an access token', async () => {
+    const req = {
+      headers: { authorization: `Bearer ${generateAccessToken(user)}` },
+    } as Request;
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await authenticateToken(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ id: '1', email: user.email, role: user.role });
+  });
+
+  test('returns 401 for a refresh token used as a bearer token', async () => {
+    const req = {
+      headers: { authorization: `Bearer ${generateRefreshToken(user)}` },
+    } as Request;
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await authenticateToken(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_token' }));
+    expect(req.user).toBeUndefined();
+  });
+});
+
+describe('opaque access tokens', () => {
+  const SECOND = 1000;
+
+  beforeEach(() => {
+    tokenPolicy.accessTokenFormat = 'opaque';
+  });
+
+  afterEach(() => {
+    tokenPolicy.accessTokenFormat = 'jwt';
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Move the clock to `offsetMs` after the token expires
+   */
+  async function afterExpiry(token: string, offsetMs: number) {
+    const { exp } = await verifyOpaqueAccessToken(token);
+    jest.spyOn(Date, 'now').mockReturnValue(exp * 1000 + offsetMs);
+  }
+
+  test('verify to the same claims as a JWT', async () => {
+    const token = await generateOpaqueAccessToken(user);
+
+    const payload = await verifyOpaqueAccessToken(token);
+
+    expect(token).not.toContain('.');
+    expect(payload).toMatchObject({ sub: '1', type: 'access', email: user.email, role: 'user' });
+  });
+
+  test('are accepted within the clock skew leeway', async () => {
+    const token = await generateOpaqueAccessToken(user);
+    await afterExpiry(token, 5 * SECOND);
+
+    await expect(verifyOpaqueAccessToken(token)).resolves.toMatchObject({ sub: '1' });
+  });
+
+  test('answer token_expired, not invalid_token, once expired', async () => {
+    const token = await generateOpaqueAccessToken(user);
+    await afterExpiry(token, (tokenPolicy.clockSkewLeeway + 5) * SECOND);
+    const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await authenticateToken(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'token_expired' }));
+  });
+});
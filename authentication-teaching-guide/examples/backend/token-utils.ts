@@ -3,75 +3,282 @@
  * 
  * This example shows how to generate and validate JWT tokens
  * for authentication.
+ * 
+ * Tokens are signed with an asymmetric private key (see signing-keys.ts),
+ * so any service can verify them with the public keys from the JWKS endpoint.
+ * 
+ * Access tokens can instead be opaque reference tokens
+ * (tokenPolicy.accessTokenFormat = 'opaque') whose claims stay on the server.
  */
 
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { getActiveSigningKey, getVerificationKey } from './signing-keys';
+import { getOpaqueTokenStore } from './opaque-token-store';
+import { getRefreshTokenTtl, getTokenLifetimes, tokenPolicy } from '../shared/token-policy';
+import {
+  decodeTokenClaims,
+  inspectToken,
+  isTokenExpired as isExpired,
+  TokenClaims,
+} from '../shared/token-inspection';
 
-const JWT_SECRET = process.env.JWT_SECRET!;
-const ACCESS_TOKEN_EXPIRY = '15m'; // 15 minutes
-const REFRESH_TOKEN_EXPIRY = '7d'; // 7 days
+const JWT_ISSUER = process.env.JWT_ISSUER || 'https://auth.example.com';
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'https://api.example.com';
+const OPAQUE_TOKEN_PREFIX = 'at_';
 
-interface User {
+/**
+ * The `type` claim stops one kind of token being used as the other
+ * (e.g. a long-lived refresh token sent as a bearer token)
+ */
+export type TokenType = 'access' | 'refresh' | 'email_verification' | 'mfa_challenge';
+
+export interface User {
   id: string;
   email: string;
   role: string;
+  tenantId?: string;
   tokenVersion?: number;
+  /** OAuth: the client the tokens are for, and the scopes it was granted */
+  clientId?: string;
+  scopes?: string[];
 }
 
-interface AccessTokenPayload {
+export interface AccessTokenPayload {
   sub: string;
+  type: 'access';
+  jti: string; // Unique id, so this token can be revoked on its own
   email: string;
   role: string;
+  tenantId?: string;
+  client_id?: string; // Only on tokens issued to an OAuth client
+  scope?: string; // Space-separated; limits the token to these permissions
+  tokenVersion: number; // Revoked once the user's version moves past it
+  iss: string;
+  aud: string;
   iat: number;
   exp: number;
 }
 
-interface RefreshTokenPayload {
+export interface RefreshTokenPayload {
   sub: string;
+  type: 'refresh';
+  jti: string; // Unique id of this refresh token
+  familyId: string; // Shared by every token rotated from the same login
+  authTime: number; // When the user logged in (caps the session lifetime)
   tokenVersion: number;
+  client_id?: string; // OAuth client tokens refresh at /oauth/token only
+  scope?: string;
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number;
+}
+
+export interface EmailVerificationTokenPayload {
+  sub: string;
+  type: 'email_verification';
+  email: string; // The address being verified
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number;
+}
+
+export interface MfaChallengeTokenPayload {
+  sub: string;
+  type: 'mfa_challenge';
+  tokenVersion: number; // A password reset cancels pending challenges
+  iss: string;
+  aud: string;
   iat: number;
   exp: number;
 }
 
+/**
+ * Login session a refresh token belongs to
+ */
+export interface RefreshSession {
+  familyId: string;
+  authTime: number; // seconds since epoch
+}
+
+/**
+ * Start a new login session (a new token family)
+ */
+export function newRefreshSession(): RefreshSession {
+  return {
+    familyId: crypto.randomUUID(),
+    authTime: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Sign a payload with the active key and put its `kid` in the header
+ */
+function signToken(payload: object, expiresIn: number): string {
+  const key = getActiveSigningKey();
+  
+  return jwt.sign(payload, key.privateKey, {
+    algorithm: key.alg,
+    keyid: key.kid,
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    expiresIn,
+  });
+}
+
+/**
+ * Verify a token against the key named in its `kid` header
+ * Only the key's own algorithm is accepted (prevents alg confusion),
+ * and issuer, audience and token type must all match
+ */
+function verifyToken(token: string, expectedType: TokenType): jwt.JwtPayload {
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header.kid;
+  if (!kid) {
+    throw new jwt.JsonWebTokenError('Missing key id');
+  }
+  
+  const key = getVerificationKey(kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError('Unknown signing key');
+  }
+  
+  const payload = jwt.verify(token, key.publicKey, {
+    algorithms: [key.alg],
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    clockTolerance: tokenPolicy.clockSkewLeeway,
+  }) as jwt.JwtPayload;
+  
+  if (payload.type !== expectedType) {
+    throw new jwt.JsonWebTokenError(`Expected ${expectedType} token`);
+  }
+  
+  return payload;
+}
+
 /**
  * Generate access token
  */
 export function generateAccessToken(user: User): string {
-  const payload: Omit<AccessTokenPayload, 'iat' | 'exp'> = {
+  const payload: Omit<AccessTokenPayload, 'iss' | 'aud' | 'iat' | 'exp'> = {
     sub: user.id,
+    type: 'access',
+    jti: crypto.randomUUID(),
     email: user.email,
     role: user.role,
+    tenantId: user.tenantId,
+    client_id: user.clientId,
+    scope: user.scopes?.join(' '),
+    tokenVersion: user.tokenVersion || 0,
   };
   
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: ACCESS_TOKEN_EXPIRY,
-  });
+  return signToken(payload, getTokenLifetimes(user.role).accessTokenTtl);
 }
 
 /**
  * Generate refresh token
+ * Pass the session of the token being rotated to keep the same family
+ * and login time (so rotation can't outlive the absolute lifetime)
  */
-export function generateRefreshToken(user: User): string {
-  const payload: Omit<RefreshTokenPayload, 'iat' | 'exp'> = {
+export function generateRefreshToken(
+  user: User,
+  session: RefreshSession = newRefreshSession()
+): string {
+  const ttl = getRefreshTokenTtl(user.role, session.authTime);
+  if (ttl <= 0) {
+    throw new Error('Session lifetime expired');
+  }
+  
+  const payload: Omit<RefreshTokenPayload, 'iss' | 'aud' | 'iat' | 'exp'> = {
     sub: user.id,
+    type: 'refresh',
+    jti: crypto.randomUUID(),
+    familyId: session.familyId,
+    authTime: session.authTime,
     tokenVersion: user.tokenVersion || 0,
+    client_id: user.clientId,
+    scope: user.scopes?.join(' '),
   };
   
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: REFRESH_TOKEN_EXPIRY,
+  return signToken(payload, ttl);
+}
+
+/**
+ * Generate email verification token (sent by email, never to the API)
+ */
+export function generateEmailVerificationToken(user: Pick<User, 'id' | 'email'>): string {
+  const payload: Omit<EmailVerificationTokenPayload, 'iss' | 'aud' | 'iat' | 'exp'> = {
+    sub: user.id,
+    type: 'email_verification',
+    email: user.email,
+  };
+  
+  return signToken(payload, tokenPolicy.emailVerificationTokenTtl);
+}
+
+/**
+ * Generate MFA challenge token
+ * Proves the password was right; only /login/mfa accepts it
+ */
+export function generateMfaChallengeToken(user: User): string {
+  const payload: Omit<MfaChallengeTokenPayload, 'iss' | 'aud' | 'iat' | 'exp'> = {
+    sub: user.id,
+    type: 'mfa_challenge',
+    tokenVersion: user.tokenVersion || 0,
+  };
+  
+  return signToken(payload, tokenPolicy.mfaChallengeTokenTtl);
+}
+
+/**
+ * Hash an opaque token - only the hash is ever stored
+ */
+export function hashOpaqueToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate opaque access token
+ * A random reference to claims kept on the server (see opaque-token-store.ts)
+ */
+export async function generateOpaqueAccessToken(user: User): Promise<string> {
+  const token = OPAQUE_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const iat = Math.floor(Date.now() / 1000);
+  
+  await getOpaqueTokenStore().save({
+    id: hashOpaqueToken(token),
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    tenantId: user.tenantId,
+    clientId: user.clientId,
+    scope: user.scopes?.join(' '),
+    tokenVersion: user.tokenVersion || 0,
+    iat,
+    exp: iat + getTokenLifetimes(user.role).accessTokenTtl,
   });
+  
+  return token;
 }
 
 /**
  * Generate both tokens
+ * The access token format follows tokenPolicy.accessTokenFormat
  */
-export function generateTokens(user: User): {
+export async function generateTokens(user: User, session?: RefreshSession): Promise<{
   accessToken: string;
   refreshToken: string;
-} {
+}> {
+  const accessToken = tokenPolicy.accessTokenFormat === 'opaque'
+    ? await generateOpaqueAccessToken(user)
+    : generateAccessToken(user);
+  
   return {
-    accessToken: generateAccessToken(user),
-    refreshToken: generateRefreshToken(user),
+    accessToken,
+    refreshToken: generateRefreshToken(user, session),
   };
 }
 
@@ -79,55 +286,100 @@ export function generateTokens(user: User): {
  * Verify access token
  */
 export function verifyAccessToken(token: string): AccessTokenPayload {
-  return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+  return verifyToken(token, 'access') as AccessTokenPayload;
+}
+
+/**
+ * Verify opaque access token by looking it up in the store
+ * Returns the same payload shape as verifyAccessToken
+ * (`jti` is the token hash, which is also its store id)
+ */
+export async function verifyOpaqueAccessToken(token: string): Promise<AccessTokenPayload> {
+  const record = token.startsWith(OPAQUE_TOKEN_PREFIX)
+    ? await getOpaqueTokenStore().find(hashOpaqueToken(token))
+    : null;
+  if (!record) {
+    throw new jwt.JsonWebTokenError('Unknown token');
+  }
+  
+  const expiresAt = new Date(record.exp * 1000);
+  if (Date.now() >= expiresAt.getTime() + tokenPolicy.clockSkewLeeway * 1000) {
+    throw new jwt.TokenExpiredError('Token expired', expiresAt);
+  }
+  
+  return {
+    sub: record.sub,
+    type: 'access',
+    jti: record.id,
+    email: record.email,
+    role: record.role,
+    tenantId: record.tenantId,
+    client_id: record.clientId,
+    scope: record.scope,
+    tokenVersion: record.tokenVersion,
+    iss: JWT_ISSUER,
+    aud: JWT_AUDIENCE,
+    iat: record.iat,
+    exp: record.exp,
+  };
+}
+
+/**
+ * Verify an access token in the configured format (JWT or opaque)
+ */
+export async function verifyConfiguredAccessToken(token: string): Promise<AccessTokenPayload> {
+  return tokenPolicy.accessTokenFormat === 'opaque'
+    ? verifyOpaqueAccessToken(token)
+    : verifyAccessToken(token);
 }
 
 /**
  * Verify refresh token
  */
 export function verifyRefreshToken(token: string): RefreshTokenPayload {
-  return jwt.verify(token, JWT_SECRET) as RefreshTokenPayload;
+  return verifyToken(token, 'refresh') as RefreshTokenPayload;
+}
+
+/**
+ * Verify email verification token
+ */
+export function verifyEmailVerificationToken(token: string): EmailVerificationTokenPayload {
+  return verifyToken(token, 'email_verification') as EmailVerificationTokenPayload;
+}
+
+/**
+ * Verify MFA challenge token
+ */
+export function verifyMfaChallengeToken(token: string): MfaChallengeTokenPayload {
+  return verifyToken(token, 'mfa_challenge') as MfaChallengeTokenPayload;
 }
 
 /**
  * Decode token without verification (for checking expiry)
  */
-export function decodeToken(token: string): any {
-  return jwt.decode(token);
+export function decodeToken(token: string): TokenClaims | null {
+  return decodeTokenClaims(token);
 }
 
 /**
- * Check if token is expired
+ * Check if token is expired (allowing the policy's clock skew)
  */
 export function isTokenExpired(token: string): boolean {
-  try {
-    const decoded = jwt.decode(token) as { exp?: number } | null;
-    if (!decoded?.exp) return true;
-    
-    const expirationTime = decoded.exp * 1000; // Convert to milliseconds
-    return Date.now() >= expirationTime;
-  } catch {
-    return true;
-  }
+  return isExpired(token, { leeway: tokenPolicy.clockSkewLeeway });
 }
 
 /**
  * Get token expiration time
  */
 export function getTokenExpirationTime(token: string): number | null {
-  try {
-    const decoded = jwt.decode(token) as { exp?: number } | null;
-    return decoded?.exp ? decoded.exp * 1000 : null;
-  } catch {
-    return null;
-  }
+  return inspectToken(token)?.expiresAt ?? null;
 }
 
 /**
  * Usage example:
  * 
  * // On login
- * const { accessToken, refreshToken } = generateTokens(user);
+ * const { accessToken, refreshToken } = await generateTokens(user);
  * 
  * // Verify token in middleware
  * try {
@@ -0,0 +1,267 @@
+/**
+ * User Repository
+ *
+ * This example shows where the auth routes get users from, behind one
+ * interface so the storage can change without touching the routes:
+ * - In-memory (tests, quick experiments)
+ * - SQLite (survives restarts - runs on a laptop with no database server)
+ *
+ * Emails are stored lowercased and trimmed, so `User@Example.com` and
+ * `user@example.com` are the same account.
+ */
+
+import crypto from 'crypto';
+import type { Database } from 'better-sqlite3';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  passwordHash: string;
+  role: string;
+  tenantId?: string;
+  tokenVersion: number; // Incremented to invalidate every refresh token
+  emailVerifiedAt: number | null; // ms since epoch; null until verified
+  createdAt: number; // ms since epoch
+}
+
+export interface NewUser {
+  email: string;
+  passwordHash: string;
+  role?: string;
+  tenantId?: string;
+}
+
+/**
+ * Fields that can change after registration
+ */
+export type UserChanges = Partial<
+  Pick<UserRecord, 'email' | 'passwordHash' | 'role' | 'tokenVersion' | 'emailVerifiedAt'>
+>;
+
+/**
+ * Storage backend for users
+ * Implement this for your database (Postgres, MongoDB, ...)
+ */
+export interface UserRepository {
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  /** Throws EmailTakenError if the email is already registered */
+  create(user: NewUser): Promise<UserRecord>;
+  update(id: string, changes: UserChanges): Promise<UserRecord | null>;
+}
+
+/**
+ * Thrown when registering an email that already has an account
+ */
+export class EmailTakenError extends Error {
+  constructor() {
+    super('Email already registered');
+    this.name = 'EmailTakenError';
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function newUserRecord(user: NewUser): UserRecord {
+  return {
+    id: crypto.randomUUID(),
+    email: normalizeEmail(user.email),
+    passwordHash: user.passwordHash,
+    role: user.role ?? 'user',
+    tenantId: user.tenantId,
+    tokenVersion: 0,
+    emailVerifiedAt: null,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * In-memory repository (single process, lost on restart - good for development)
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserRecord>();
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const normalized = normalizeEmail(email);
+    for (const user of this.users.values()) {
+      if (user.email === normalized) return { ...user };
+    }
+    return null;
+  }
+
+  async create(user: NewUser): Promise<UserRecord> {
+    if (await this.findByEmail(user.email)) {
+      throw new EmailTakenError();
+    }
+
+    const record = newUserRecord(user);
+    this.users.set(record.id, record);
+    return { ...record };
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+
+    const email = changes.email === undefined ? user.email : normalizeEmail(changes.email);
+    if (email !== user.email && (await this.findByEmail(email))) {
+      throw new EmailTakenError();
+    }
+
+    Object.assign(user, changes, { email });
+    return { ...user };
+  }
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  role: string;
+  tenant_id: string | null;
+  token_version: number;
+  email_verified_at: number | null;
+  created_at: number;
+}
+
+function fromRow(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    role: row.role,
+    tenantId: row.tenant_id ?? undefined,
+    tokenVersion: row.token_version,
+    emailVerifiedAt: row.email_verified_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite repository (better-sqlite3)
+ *
+ * const users = new SqliteUserRepository(new Database('auth.db'));
+ */
+export class SqliteUserRepository implements UserRepository {
+  constructor(private db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        tenant_id TEXT,
+        token_version INTEGER NOT NULL DEFAULT 0,
+        email_verified_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const row = this.db
+      .prepare('SELECT * FROM users WHERE email = ?')
+      .get(normalizeEmail(email)) as UserRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async create(user: NewUser): Promise<UserRecord> {
+    const record = newUserRecord(user);
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO users
+             (id, email, password_hash, role, tenant_id, token_version, email_verified_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          record.id,
+          record.email,
+          record.passwordHash,
+          record.role,
+          record.tenantId ?? null,
+          record.tokenVersion,
+          record.emailVerifiedAt,
+          record.createdAt
+        );
+    } catch (error) {
+      // The UNIQUE constraint makes concurrent registrations safe
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new EmailTakenError();
+      }
+      throw error;
+    }
+    return record;
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+    const user = await this.findById(id);
+    if (!user) return null;
+
+    const updated: UserRecord = {
+      ...user,
+      ...changes,
+      email: changes.email === undefined ? user.email : normalizeEmail(changes.email),
+    };
+
+    try {
+      this.db
+        .prepare(
+          `UPDATE users
+           SET email = ?, password_hash = ?, role = ?, token_version = ?, email_verified_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          updated.email,
+          updated.passwordHash,
+          updated.role,
+          updated.tokenVersion,
+          updated.emailVerifiedAt,
+          id
+        );
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new EmailTakenError();
+      }
+      throw error;
+    }
+    return updated;
+  }
+}
+
+let userRepository: UserRepository = new InMemoryUserRepository();
+
+/**
+ * Configure the repository used by the auth routes (call once at startup)
+ */
+export function setUserRepository(repository: UserRepository): void {
+  userRepository = repository;
+}
+
+export function getUserRepository(): UserRepository {
+  return userRepository;
+}
+
+/**
+ * Usage example:
+ *
+ * import Database from 'better-sqlite3';
+ *
+ * // Keep users in a local file
+ * setUserRepository(new SqliteUserRepository(new Database('auth.db')));
+ *
+ * const user = await getUserRepository().findByEmail('user@example.com');
+ */
@@ -6,80 +6,81 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { storeTokens } from '@/lib/token-storage';
-
-const JWT_SECRET = process.env.JWT_SECRET!;
-
-interface LoginRequest {
-  email: string;
-  password: string;
-}
+import { storeTokens } from './token-storage';
+import { authCore } from '../backend/auth-core';
+import { getUserRepository } from '../backend/user-repository';
+import { verifyPassword } from '../backend/password-hashing';
+import { isMfaEnabled } from '../backend/mfa';
+import { startSession } from '../backend/sessions';
+import { generateMfaChallengeToken } from '../backend/token-utils';
+import { tokenPolicy } from '../shared/token-policy';
+import { validate } from '../shared/validation';
+import { loginSchema } from '../shared/auth-schemas';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Parse request body
-    const body: LoginRequest = await request.json();
-    const { email, password } = body;
+    // 1. Parse request body (invalid JSON is just another invalid body)
+    const json = await request.json().catch(() => null);
     
-    // 2. Validate input
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
+    // 2. Validate input - body is typed from the schema (LoginRequest)
+    const result = validate(loginSchema, json);
+    if (!result.success) {
+      return NextResponse.json(result.error, { status: 400 });
     }
+    const body = result.data;
+    const { email, password } = body;
     
-    // 3. Find user (replace with your database query)
-    // const user = await User.findOne({ email });
-    // For this example, using mock data
-    const mockUser = {
-      id: '1',
-      email: 'user@example.com',
-      hashedPassword: '$2a$10$...', // Hashed password from database
-      role: 'user',
-    };
+    // 3. Find user (same repository as the Express routes)
+    const user = await getUserRepository().findByEmail(email);
     
-    // 4. Verify password
-    const isValidPassword = await bcrypt.compare(password, mockUser.hashedPassword);
-    if (!isValidPassword) {
+    // 4. Verify password (same response and timing for unknown emails)
+    const isValidPassword = await verifyPassword(password, user?.passwordHash ?? null);
+    if (!user || !isValidPassword) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
     
-    // 5. Generate tokens
-    const accessToken = jwt.sign(
-      {
-        sub: mockUser.id,
-        email: mockUser.email,
-        role: mockUser.role,
-      },
-      JWT_SECRET,
-      { expiresIn: '15m' }
-    );
+    // Require a verified email (see backend/email-verification.ts)
+    if (user.emailVerifiedAt === null) {
+      return NextResponse.json(
+        { error: 'Email not verified', code: 'email_not_verified' },
+        { status: 403 }
+      );
+    }
     
-    const refreshToken = jwt.sign(
-      {
-        sub: mockUser.id,
-        type: 'refresh',
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    // With MFA on, return a challenge instead of cookies; the client
+    // finishes at the MFA step (see POST /api/auth/login/mfa in auth-routes.ts)
+    if (await isMfaEnabled(user.id)) {
+      return NextResponse.json({
+        mfaRequired: true,
+        mfaToken: generateMfaChallengeToken(user),
+        expiresIn: tokenPolicy.mfaChallengeTokenTtl,
+      });
+    }
+    
+    // 5. Generate tokens with the same core as the Express server
+    // (identical payloads; signing needs JWT_PRIVATE_KEY, so this route
+    // runs on the Node.js runtime and verifiers only use the JWKS).
+    // The session makes this device show up in GET /api/auth/sessions
+    const session = await startSession(user, {
+      deviceName: body.deviceName,
+      userAgent: request.headers.get('user-agent'),
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+    });
+    const { accessToken, refreshToken } = await authCore.issueTokens(user, session);
     
     // 6. Store tokens in HttpOnly cookies
-    await storeTokens(accessToken, refreshToken);
+    await storeTokens(accessToken, refreshToken, user.role);
     
     // 7. Return success response
     return NextResponse.json({
       success: true,
       user: {
-        id: mockUser.id,
-        email: mockUser.email,
-        role: mockUser.role,
+        id: user.id,
+        email: user.email,
+        role: user.role,
       },
     });
   } catch (error) {
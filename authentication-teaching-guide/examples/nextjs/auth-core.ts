@@ -0,0 +1,57 @@
+/**
+ * Auth Core for Next.js (Node.js and Edge runtimes)
+ *
+ * This example shows the framework-agnostic core (shared/auth-core.ts)
+ * wired to `jose` and the issuer's JWKS, so it runs anywhere Next.js
+ * does - including middleware.ts on the Edge.
+ *
+ * It can only verify: the private key stays with the issuer
+ * (backend/auth-core.ts), and the revocation list isn't reachable
+ * from the Edge, so revoked tokens pass until they expire.
+ */
+
+import { errors } from 'jose';
+import { verifyAccessToken } from './jwks';
+import { createAuthCore } from '../shared/auth-core';
+import { AuthError } from '../shared/auth-errors';
+
+/**
+ * Map jose errors to auth errors
+ */
+export function joseAuthError(error: unknown): AuthError | null {
+  // JWTExpired extends JOSEError, so it must be checked first
+  if (error instanceof errors.JWTExpired) {
+    return new AuthError('token_expired');
+  }
+  if (error instanceof errors.JOSEError) {
+    return new AuthError('invalid_token');
+  }
+  return null;
+}
+
+export const authCore = createAuthCore({
+  verifiers: {
+    bearer: async ({ token }) => {
+      const decoded = await verifyAccessToken(token);
+      return {
+        user: {
+          id: decoded.sub,
+          email: decoded.email,
+          role: decoded.role,
+        },
+      };
+    },
+  },
+  toAuthError: joseAuthError,
+});
+
+/**
+ * Usage example:
+ *
+ * import { authCore } from '@/lib/auth-core';
+ *
+ * const result = await authCore.authenticate(fromFetchRequest(request));
+ * if (result.error) {
+ *   // 401 - see toAuthErrorResponse()
+ * }
+ */
@@ -3,62 +3,90 @@
  * 
  * This example shows how to create reusable authentication middleware
  * for Next.js API routes.
+ * 
+ * A thin Pages Router adapter over the auth core (shared/auth-core.ts).
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET!;
+import { authCore } from './auth-core';
+import {
+  AuthCore,
+  AuthenticateRequestOptions,
+  AuthUser,
+  authorize,
+} from '../shared/auth-core';
+import { fromNodeRequest } from '../shared/credential-extraction';
+import { AuthError, toAuthErrorResponse } from '../shared/auth-errors';
 
 export interface AuthenticatedRequest extends NextApiRequest {
-  user?: {
-    id: string;
-    email: string;
-    role: string;
-  };
+  user?: AuthUser;
+}
+
+export interface AuthenticateOptions extends AuthenticateRequestOptions {
+  /** Auth core to use (jose + JWKS by default) */
+  core?: AuthCore;
+}
+
+/**
+ * Send a structured auth error with its WWW-Authenticate header
+ */
+function sendAuthError(res: NextApiResponse, error: AuthError) {
+  const { status, headers, body } = toAuthErrorResponse(error);
+  Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+  return res.status(status).json(body);
 }
 
 /**
  * Middleware wrapper that validates JWT token and attaches user to request
+ * Pass `extractors` to change where the token is read from
+ * (same strategies as the Express middleware)
  */
 export function authenticateToken(
-  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> | void
+  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> | void,
+  options: AuthenticateOptions = {}
 ) {
+  const { core = authCore, ...requestOptions } = options;
+  
   return async (req: AuthenticatedRequest, res: NextApiResponse) => {
     try {
-      // 1. Get token from Authorization header
-      const authHeader = req.headers.authorization;
-      if (!authHeader?.startsWith('Bearer ')) {
-        return res.status(401).json({ error: 'No token provided' });
+      // 1. Get and verify token (Authorization header, then accessToken cookie)
+      const result = await core.authenticate(fromNodeRequest(req), requestOptions);
+      if (result.error) {
+        return sendAuthError(res, result.error);
       }
       
-      const token = authHeader.split(' ')[1];
-      
-      // 2. Verify token
-      const decoded = jwt.verify(token, JWT_SECRET) as {
-        sub: string;
-        email: string;
-        role: string;
-      };
-      
-      // 3. Attach user to request
-      req.user = {
-        id: decoded.sub,
-        email: decoded.email,
-        role: decoded.role,
-      };
-      
-      // 4. Call the actual route handler
-      return await handler(req, res);
+      // 2. Attach user to request
+      req.user = result.principal.user;
     } catch (error) {
-      if (error instanceof jwt.JsonWebTokenError) {
-        return res.status(401).json({ error: 'Invalid token' });
-      }
-      if (error instanceof jwt.TokenExpiredError) {
-        return res.status(401).json({ error: 'Token expired' });
-      }
+      console.error('Authentication error:', error);
       return res.status(500).json({ error: 'Authentication error' });
     }
+    
+    // 3. Call the actual route handler
+    return await handler(req, res);
+  };
+}
+
+/**
+ * Wrapper that requires permissions (all of them)
+ * Wrap the handler, then wrap the result with authenticateToken
+ */
+export function requirePermission(...permissions: string[]) {
+  return (
+    handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> | void
+  ) => {
+    return async (req: AuthenticatedRequest, res: NextApiResponse) => {
+      if (!req.user) {
+        return sendAuthError(res, new AuthError('missing_token'));
+      }
+      
+      const error = authorize(req.user, { permissions });
+      if (error) {
+        return sendAuthError(res, error);
+      }
+      
+      return await handler(req, res);
+    };
   };
 }
 
@@ -75,5 +103,12 @@ export function authenticateToken(
  *     user: req.user,
  *   });
  * });
+ * 
+ * // pages/api/posts/create.ts - requires the posts:write permission
+ * export default authenticateToken(
+ *   requirePermission('posts:write')(async (req, res) => {
+ *     res.json({ message: 'Post created' });
+ *   })
+ * );
  */
 
@@ -0,0 +1,53 @@
+/**
+ * Next.js Edge Middleware Authentication
+ *
+ * This example shows the adapter middleware.ts uses on the Edge runtime.
+ * Middleware decides what happens on failure itself (redirect a page,
+ * or answer an API route with 401/403), so this adapter only returns
+ * the result and leaves the response to the caller.
+ *
+ * A thin adapter over the auth core (shared/auth-core.ts); the default
+ * core uses `jose`, which needs no Node.js APIs.
+ */
+
+import type { NextRequest } from 'next/server';
+import { authCore } from './auth-core';
+import {
+  AuthCore,
+  AuthenticateRequestOptions,
+  AuthRequirement,
+  AuthResult,
+} from '../shared/auth-core';
+import { fromFetchRequest } from '../shared/credential-extraction';
+
+export interface EdgeAuthOptions extends AuthenticateRequestOptions, AuthRequirement {
+  /** Auth core to use (jose + JWKS by default) */
+  core?: AuthCore;
+}
+
+/**
+ * Authenticate (and, with `roles` / `permissions`, authorize) a request
+ * Resolves the principal, or the AuthError to send
+ */
+export async function authenticateEdgeRequest(
+  request: NextRequest | Request,
+  options: EdgeAuthOptions = {}
+): Promise<AuthResult> {
+  const { core = authCore, roles, permissions, ...requestOptions } = options;
+
+  const result = await core.authenticate(fromFetchRequest(request), requestOptions);
+  if (result.error) return result;
+
+  const error = core.authorize(result.principal.user, { roles, permissions });
+  return error ? { error } : result;
+}
+
+/**
+ * Usage example:
+ *
+ * // middleware.ts
+ * const { principal, error } = await authenticateEdgeRequest(request);
+ * if (error && isApiRoute) {
+ *   return authErrorResponse(error);
+ * }
+ */
@@ -0,0 +1,55 @@
+/**
+ * Next.js Token Verification with Public Keys (JWKS)
+ *
+ * This example shows how to verify access tokens using only the
+ * issuer's public keys. No signing secret is needed in the Next.js app,
+ * and it works in both the Node.js and Edge runtimes.
+ */
+
+import { createRemoteJWKSet, errors, jwtVerify } from 'jose';
+import { tokenPolicy } from '../shared/token-policy';
+
+const JWKS_URL =
+  process.env.JWKS_URL || 'http://localhost:4000/.well-known/jwks.json';
+const JWT_ISSUER = process.env.JWT_ISSUER || 'https://auth.example.com';
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'https://api.example.com';
+
+// Keys are fetched once, cached, and re-fetched when an unknown `kid` appears
+const jwks = createRemoteJWKSet(new URL(JWKS_URL));
+
+export interface VerifiedAccessToken {
+  sub: string;
+  type: 'access';
+  email: string;
+  role: string;
+}
+
+/**
+ * Verify an access token's signature, expiry, issuer, audience
+ * and type against the JWKS
+ * Throws a jose error (e.g. errors.JWTExpired) if the token is not valid
+ */
+export async function verifyAccessToken(token: string): Promise<VerifiedAccessToken> {
+  const { payload } = await jwtVerify(token, jwks, {
+    algorithms: ['RS256', 'ES256'],
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    clockTolerance: tokenPolicy.clockSkewLeeway,
+  });
+
+  // A refresh token has a valid signature too - reject it here
+  if (payload.type !== 'access') {
+    throw new errors.JWTInvalid('Expected access token');
+  }
+
+  return payload as unknown as VerifiedAccessToken;
+}
+
+/**
+ * Usage example:
+ *
+ * import { verifyAccessToken } from '@/lib/jwks';
+ *
+ * const user = await verifyAccessToken(token);
+ * console.log(user.sub, user.role);
+ */
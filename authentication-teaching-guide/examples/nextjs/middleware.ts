@@ -9,11 +9,14 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { authenticateEdgeRequest } from './edge-auth';
+import { authErrorResponse } from './route-handler-auth';
 
-export function middleware(request: NextRequest) {
-  // 1. Get token from cookie or header
-  const token = request.cookies.get('accessToken')?.value 
-    || request.headers.get('authorization')?.replace('Bearer ', '');
+export async function middleware(request: NextRequest) {
+  // 1. Verify the token from header or cookie (same precedence as the API routes)
+  // with public keys only - no signing secret at the edge
+  const { principal, error: authError } = await authenticateEdgeRequest(request);
+  const isAuthenticated = Boolean(principal);
   
   // 2. Define route patterns
   const isProtectedRoute = request.nextUrl.pathname.startsWith('/dashboard');
@@ -22,23 +25,20 @@ export function middleware(request: NextRequest) {
   const isApiRoute = request.nextUrl.pathname.startsWith('/api/protected');
   
   // 3. Handle protected routes
-  if (isProtectedRoute && !token) {
+  if (isProtectedRoute && !isAuthenticated) {
     const loginUrl = new URL('/login', request.url);
     loginUrl.searchParams.set('from', request.nextUrl.pathname);
     return NextResponse.redirect(loginUrl);
   }
   
   // 4. Redirect authenticated users away from auth pages
-  if (isAuthRoute && token) {
+  if (isAuthRoute && isAuthenticated) {
     return NextResponse.redirect(new URL('/dashboard', request.url));
   }
   
   // 5. Handle protected API routes
-  if (isApiRoute && !token) {
-    return NextResponse.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    );
+  if (isApiRoute && authError) {
+    return authErrorResponse(authError);
   }
   
   // 6. Add custom headers (optional)
@@ -67,5 +67,6 @@ export const config = {
  * - Limited Node.js APIs
  * - No access to database directly
  * - Use for simple checks and redirects
+ * - Verify tokens with `jose` + JWKS (jsonwebtoken needs Node.js crypto)
  */
 
@@ -0,0 +1,93 @@
+/**
+ * Next.js App Router Authentication
+ *
+ * This example shows how to protect App Router route handlers
+ * (app/api/.../route.ts). Handlers receive a Fetch API Request and
+ * return a Response, so there's no `req.user` - the authenticated user
+ * is passed to the handler instead.
+ *
+ * A thin adapter over the auth core (shared/auth-core.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { authCore } from './auth-core';
+import {
+  AuthCore,
+  AuthenticateRequestOptions,
+  AuthRequirement,
+  AuthUser,
+} from '../shared/auth-core';
+import { fromFetchRequest } from '../shared/credential-extraction';
+import { AuthError, toAuthErrorResponse } from '../shared/auth-errors';
+
+export interface WithAuthOptions extends AuthenticateRequestOptions, AuthRequirement {
+  /** Auth core to use (jose + JWKS by default) */
+  core?: AuthCore;
+}
+
+export type AuthenticatedRouteHandler<C> = (
+  request: Request,
+  context: C & { user: AuthUser }
+) => Promise<Response> | Response;
+
+/**
+ * Structured auth error response with its WWW-Authenticate header
+ */
+export function authErrorResponse(error: AuthError): NextResponse {
+  const { status, headers, body } = toAuthErrorResponse(error);
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Wrap a route handler so it only runs for authenticated
+ * (and, with `roles` / `permissions`, authorized) users
+ */
+export function withAuth<C = object>(
+  handler: AuthenticatedRouteHandler<C>,
+  options: WithAuthOptions = {}
+) {
+  const { core = authCore, roles, permissions, ...requestOptions } = options;
+
+  return async (request: Request, context: C = {} as C): Promise<Response> => {
+    let user: AuthUser;
+    try {
+      // 1. Get and verify token (Authorization header, then accessToken cookie)
+      const result = await core.authenticate(fromFetchRequest(request), requestOptions);
+      if (result.error) {
+        return authErrorResponse(result.error);
+      }
+      user = result.principal.user;
+    } catch (error) {
+      console.error('Authentication error:', error);
+      return NextResponse.json({ error: 'Authentication error' }, { status: 500 });
+    }
+
+    // 2. Check roles and permissions
+    const authError = core.authorize(user, { roles, permissions });
+    if (authError) {
+      return authErrorResponse(authError);
+    }
+
+    // 3. Call the actual route handler
+    return handler(request, { ...context, user });
+  };
+}
+
+/**
+ * Usage example:
+ *
+ * // app/api/profile/route.ts
+ * import { withAuth } from '@/lib/route-handler-auth';
+ *
+ * export const GET = withAuth(async (request, { user }) => {
+ *   return NextResponse.json({ user });
+ * });
+ *
+ * // app/api/posts/[id]/route.ts - requires the posts:write permission
+ * export const PUT = withAuth<{ params: { id: string } }>(
+ *   async (request, { params, user }) => {
+ *     return NextResponse.json({ id: params.id, updatedBy: user.id });
+ *   },
+ *   { permissions: ['posts:write'] }
+ * );
+ */
@@ -6,19 +6,24 @@
  */
 
 import { cookies } from 'next/headers';
+import { getTokenLifetimes, tokenPolicy } from '../shared/token-policy';
+import { isTokenExpired } from '../shared/token-inspection';
 
 const ACCESS_TOKEN_KEY = 'accessToken';
 const REFRESH_TOKEN_KEY = 'refreshToken';
 
 /**
  * Store access and refresh tokens in HttpOnly cookies
+ * Cookies expire together with the tokens (per the role's token policy)
  */
-export async function storeTokens(accessToken: string, refreshToken: string) {
+export async function storeTokens(accessToken: string, refreshToken: string, role?: string) {
+  const { accessTokenTtl, refreshTokenIdleTtl } = getTokenLifetimes(role);
+  
   cookies().set(ACCESS_TOKEN_KEY, accessToken, {
     httpOnly: true, // Not accessible to JavaScript (XSS protection)
     secure: process.env.NODE_ENV === 'production', // HTTPS only in production
     sameSite: 'strict', // CSRF protection
-    maxAge: 900, // 15 minutes
+    maxAge: accessTokenTtl,
     path: '/',
   });
   
@@ -26,7 +31,7 @@ export async function storeTokens(accessToken: string, refreshToken: string) {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'strict',
-    maxAge: 604800, // 7 days
+    maxAge: refreshTokenIdleTtl,
     path: '/',
   });
 }
@@ -60,13 +65,6 @@ export async function hasValidToken(): Promise<boolean> {
   const token = await getAccessToken();
   if (!token) return false;
   
-  try {
-    // Decode token to check expiry (without verification)
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    const exp = payload.exp * 1000; // Convert to milliseconds
-    return Date.now() < exp;
-  } catch {
-    return false;
-  }
+  // Decode token to check expiry (without verification)
+  return !isTokenExpired(token, { leeway: tokenPolicy.clockSkewLeeway });
 }
-
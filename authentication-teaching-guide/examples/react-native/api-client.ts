@@ -8,6 +8,7 @@
 import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import { getAccessToken, getRefreshToken, storeTokens, clearTokens } from './secure-storage';
 import { router } from 'expo-router'; // or your navigation library
+import { getAuthErrorCode } from '../shared/auth-errors';
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api.example.com';
 
@@ -49,9 +50,11 @@ apiClient.interceptors.response.use(
   },
   async (error) => {
     const originalRequest = error.config;
+    const code = getAuthErrorCode(error.response?.data);
     
-    // If 401 and haven't tried to refresh yet
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // Expired access token: refresh once and retry
+    // (other 401 codes mean the token is forged or revoked - refreshing won't help)
+    if (code === 'token_expired' && !originalRequest._retry) {
       originalRequest._retry = true;
       
       try {
@@ -91,7 +94,16 @@ apiClient.interceptors.response.use(
       }
     }
     
-    // For other errors, just reject
+    // Invalid or revoked token: the session is over
+    if (code === 'invalid_token' || code === 'token_revoked') {
+      await clearTokens();
+      
+      if (router) {
+        router.replace('/login');
+      }
+    }
+    
+    // For other errors (including 403 insufficient_scope), just reject
     return Promise.reject(error);
   }
 );
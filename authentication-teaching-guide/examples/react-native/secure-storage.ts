@@ -6,6 +6,7 @@
  */
 
 import * as SecureStore from 'expo-secure-store';
+import { getTimeToExpiry, isTokenExpired } from '../shared/token-inspection';
 
 const ACCESS_TOKEN_KEY = 'accessToken';
 const REFRESH_TOKEN_KEY = 'refreshToken';
@@ -76,13 +77,16 @@ export async function isAccessTokenExpired(): Promise<boolean> {
   const token = await getAccessToken();
   if (!token) return true;
   
-  try {
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    const exp = payload.exp * 1000; // Convert to milliseconds
-    return Date.now() >= exp;
-  } catch {
-    return true;
-  }
+  return isTokenExpired(token);
+}
+
+/**
+ * Milliseconds until the access token expires (null if unknown)
+ * Useful for refreshing shortly before expiry instead of waiting for a 401
+ */
+export async function getAccessTokenTimeToExpiry(): Promise<number | null> {
+  const token = await getAccessToken();
+  return token ? getTimeToExpiry(token) : null;
 }
 
 /**
@@ -6,7 +6,8 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { getAccessToken, clearTokens } from './secure-storage';
+import { Linking } from 'react-native';
+import { getAccessToken, storeTokens, clearTokens } from './secure-storage';
 import apiClient from './api-client';
 
 interface User {
@@ -21,6 +22,23 @@ interface AuthState {
   authenticated: boolean;
 }
 
+interface LoginResult {
+  success: boolean;
+  /** The password was right; call verifyMfa with a code to finish */
+  mfaRequired?: boolean;
+  error?: string;
+}
+
+/**
+ * The token from a magic link URL (https://app.example.com/magic-link?token=...),
+ * or null if the URL isn't a magic link
+ */
+function magicLinkToken(url: string): string | null {
+  if (!url.includes('/magic-link')) return null;
+  const match = url.match(/[?&]token=([^&#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
 /**
  * Custom hook for authentication
  */
@@ -31,6 +49,10 @@ export function useAuth() {
     authenticated: false,
   });
   
+  // Challenge from the password step, while waiting for the MFA code
+  // (kept in memory only - it is useless after a few minutes anyway)
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  
   /**
    * Check if user is authenticated
    */
@@ -69,13 +91,19 @@ export function useAuth() {
   /**
    * Login function
    */
-  const login = useCallback(async (email: string, password: string) => {
+  const login = useCallback(async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await apiClient.post('/api/auth/login', {
         email,
         password,
       });
       
+      // MFA enrolled: no tokens yet, ask the user for a code
+      if (response.data.mfaRequired) {
+        setMfaToken(response.data.mfaToken);
+        return { success: false, mfaRequired: true };
+      }
+      
       const { accessToken, refreshToken } = response.data;
       await storeTokens(accessToken, refreshToken);
       
@@ -91,6 +119,89 @@ export function useAuth() {
     }
   }, [checkAuth]);
   
+  /**
+   * Passwordless login, step 1: email a login link
+   * Succeeds whether or not the email has an account
+   */
+  const requestMagicLink = useCallback(async (email: string): Promise<LoginResult> => {
+    try {
+      await apiClient.post('/api/auth/magic-link', { email });
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Could not send the login link',
+      };
+    }
+  }, []);
+  
+  /**
+   * Passwordless login, step 2: exchange the link's token for tokens
+   * Accepts the whole deep link URL or just the token
+   */
+  const loginWithMagicLink = useCallback(async (tokenOrUrl: string): Promise<LoginResult> => {
+    const token = tokenOrUrl.includes('://') ? magicLinkToken(tokenOrUrl) : tokenOrUrl;
+    if (!token) {
+      return { success: false, error: 'Invalid login link' };
+    }
+    
+    try {
+      const response = await apiClient.post('/api/auth/magic-link/verify', { token });
+      
+      // The link replaces the password, not the second factor
+      if (response.data.mfaRequired) {
+        setMfaToken(response.data.mfaToken);
+        return { success: false, mfaRequired: true };
+      }
+      
+      const { accessToken, refreshToken } = response.data;
+      await storeTokens(accessToken, refreshToken);
+      
+      await checkAuth();
+      
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Login failed',
+      };
+    }
+  }, [checkAuth]);
+  
+  /**
+   * Second login step: a code from the authenticator app or a recovery code
+   */
+  const verifyMfa = useCallback(async (code: string): Promise<LoginResult> => {
+    if (!mfaToken) {
+      return { success: false, error: 'Please log in again' };
+    }
+    
+    try {
+      const response = await apiClient.post('/api/auth/login/mfa', {
+        mfaToken,
+        code,
+      });
+      
+      const { accessToken, refreshToken } = response.data;
+      await storeTokens(accessToken, refreshToken);
+      setMfaToken(null);
+      
+      await checkAuth();
+      
+      return { success: true };
+    } catch (error: any) {
+      // An expired challenge means starting over from the password
+      if (error.response?.data?.code === 'mfa_challenge_invalid') {
+        setMfaToken(null);
+      }
+      return {
+        success: false,
+        mfaRequired: error.response?.data?.code !== 'mfa_challenge_invalid',
+        error: error.response?.data?.error || 'Verification failed',
+      };
+    }
+  }, [mfaToken, checkAuth]);
+  
   /**
    * Logout function
    */
@@ -116,9 +227,29 @@ export function useAuth() {
     checkAuth();
   }, [checkAuth]);
   
+  // Log in from magic links - both the one that launched the app and
+  // ones opened while it runs
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      if (url && magicLinkToken(url)) {
+        loginWithMagicLink(url);
+      }
+    };
+    
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', (event: { url: string }) =>
+      handleUrl(event.url)
+    );
+    return () => subscription.remove();
+  }, [loginWithMagicLink]);
+  
   return {
     ...authState,
+    mfaRequired: mfaToken !== null,
     login,
+    verifyMfa,
+    requestMagicLink,
+    loginWithMagicLink,
     logout,
     checkAuth,
   };
@@ -130,10 +261,16 @@ export function useAuth() {
  * import { useAuth } from '@/hooks/useAuth';
  * 
  * function MyComponent() {
- *   const { user, loading, authenticated, login, logout } = useAuth();
+ *   const {
+ *     user, loading, authenticated, mfaRequired,
+ *     login, verifyMfa, requestMagicLink, logout,
+ *   } = useAuth();
  *   
  *   if (loading) return <LoadingScreen />;
+ *   if (mfaRequired) return <MfaCodeScreen onSubmit={verifyMfa} />;
  *   if (!authenticated) return <LoginScreen onLogin={login} />;
+ *   // Or passwordless: <EmailScreen onSubmit={requestMagicLink} /> - the
+ *   // emailed link opens the app and logs in by itself
  *   
  *   return (
  *     <View>
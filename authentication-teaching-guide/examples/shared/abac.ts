@@ -0,0 +1,104 @@
+/**
+ * Attribute-Based Access Control (resource policies)
+ *
+ * Roles answer "can this kind of user edit profiles?". Resource policies
+ * answer "can THIS user edit THIS profile?" by comparing attributes of
+ * the user, the resource and the request time.
+ *
+ * Policies are plain functions, so they compose and are easy to test:
+ *
+ * anyOf(isOwner((profile) => profile.userId), permits('users:write'))
+ *
+ * Framework-agnostic - the Express middleware lives in auth-middleware.ts.
+ */
+
+import { hasPermission, isGranted } from './rbac';
+
+export interface PolicyUser {
+  id: string;
+  email: string;
+  role: string;
+  tenantId?: string;
+  /** Explicit permissions (API keys, OAuth tokens) - checked instead of the role's */
+  scopes?: string[];
+}
+
+export interface PolicyContext<R> {
+  user: PolicyUser;
+  resource: R;
+  now: Date;
+}
+
+export type ResourcePolicy<R> = (context: PolicyContext<R>) => boolean;
+
+/**
+ * The user owns the resource
+ */
+export function isOwner<R>(getOwnerId: (resource: R) => string): ResourcePolicy<R> {
+  return ({ user, resource }) => getOwnerId(resource) === user.id;
+}
+
+/**
+ * The resource belongs to the user's tenant (users without a tenant never match)
+ */
+export function sameTenant<R>(getTenantId: (resource: R) => string): ResourcePolicy<R> {
+  return ({ user, resource }) =>
+    user.tenantId !== undefined && getTenantId(resource) === user.tenantId;
+}
+
+/**
+ * The request happens inside a time window on the resource
+ * (e.g. a post is editable for 24 hours after creation)
+ */
+export function withinTimeWindow<R>(
+  getWindow: (resource: R) => { from?: Date; until?: Date }
+): ResourcePolicy<R> {
+  return ({ resource, now }) => {
+    const { from, until } = getWindow(resource);
+    if (from && now < from) return false;
+    if (until && now >= until) return false;
+    return true;
+  };
+}
+
+/**
+ * The user's role grants a permission (e.g. admins may edit any profile)
+ * - or, for a scoped token, its scopes do
+ */
+export function permits<R>(permission: string): ResourcePolicy<R> {
+  return ({ user }) =>
+    user.scopes ? isGranted(user.scopes, permission) : hasPermission(user.role, permission);
+}
+
+/**
+ * Every policy must allow
+ */
+export function allOf<R>(...policies: ResourcePolicy<R>[]): ResourcePolicy<R> {
+  return (context) => policies.every((policy) => policy(context));
+}
+
+/**
+ * At least one policy must allow
+ */
+export function anyOf<R>(...policies: ResourcePolicy<R>[]): ResourcePolicy<R> {
+  return (context) => policies.some((policy) => policy(context));
+}
+
+/**
+ * Usage example:
+ *
+ * interface Post { id: string; authorId: string; tenantId: string; createdAt: Date }
+ *
+ * const canEditPost = allOf<Post>(
+ *   sameTenant((post) => post.tenantId),
+ *   anyOf(
+ *     permits('posts:publish'),
+ *     allOf(
+ *       isOwner((post) => post.authorId),
+ *       withinTimeWindow((post) => ({
+ *         until: new Date(post.createdAt.getTime() + 24 * 60 * 60 * 1000),
+ *       }))
+ *     )
+ *   )
+ * );
+ */
@@ -0,0 +1,229 @@
+/**
+ * Tests: One Suite for Every Auth Adapter
+ *
+ * Express, Next.js Pages, App Router and Edge adapters are thin layers
+ * over the same auth core, so they must answer the same requests the
+ * same way. Each adapter gets the real Node.js core (real signed tokens,
+ * real revocation list) and runs through the same cases.
+ */
+
+import { Request, Response } from 'express';
+import { NextApiResponse } from 'next';
+import { NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { authCore } from '../backend/auth-core';
+import { authenticate, requirePermission } from '../backend/auth-middleware';
+import { generateAccessToken, generateRefreshToken } from '../backend/token-utils';
+import { getActiveSigningKey } from '../backend/signing-keys';
+import { revokeAccessToken } from '../backend/revocation-list';
+import {
+  AuthenticatedRequest,
+  authenticateToken as pagesAuthenticateToken,
+  requirePermission as pagesRequirePermission,
+} from '../nextjs/auth-middleware';
+import { authErrorResponse, withAuth } from '../nextjs/route-handler-auth';
+import { authenticateEdgeRequest } from '../nextjs/edge-auth';
+import { AuthUser } from './auth-core';
+import { AuthErrorBody } from './auth-errors';
+
+/**
+ * The user on success, an auth error otherwise
+ */
+type AdapterBody = Partial<AuthErrorBody> & { user?: AuthUser };
+
+interface AdapterResponse {
+  status: number;
+  body: AdapterBody;
+  wwwAuthenticate?: string;
+}
+
+type Headers = Record<string, string>;
+
+/**
+ * Send one request through an adapter, requiring `permissions`
+ */
+type RunAdapter = (headers: Headers, permissions: string[]) => Promise<AdapterResponse>;
+
+async function fromFetchResponse(response: Response | globalThis.Response): Promise<AdapterResponse> {
+  const fetchResponse = response as globalThis.Response;
+  return {
+    status: fetchResponse.status,
+    body: (await fetchResponse.json()) as AdapterBody,
+    wwwAuthenticate: fetchResponse.headers.get('WWW-Authenticate') ?? undefined,
+  };
+}
+
+const runExpress: RunAdapter = async (headers, permissions) => {
+  const req = { headers, url: '/api/posts' } as Request;
+  const result: AdapterResponse = { status: 200, body: {} };
+  const res = {
+    status: (status: number) => {
+      result.status = status;
+      return res;
+    },
+    set: (values: Headers) => {
+      result.wwwAuthenticate = values['WWW-Authenticate'];
+      return res;
+    },
+    json: (body: AdapterBody) => {
+      result.body = body;
+      return res;
+    },
+  } as unknown as Response;
+
+  const handler = () => res.json({ user: req.user });
+  await authenticate({ core: authCore })(req, res, () =>
+    requirePermission(...permissions)(req, res, handler)
+  );
+  return result;
+};
+
+const runPages: RunAdapter = async (headers, permissions) => {
+  const req = { headers, url: '/api/posts' } as AuthenticatedRequest;
+  const result: AdapterResponse = { status: 200, body: {} };
+  const res = {
+    setHeader: (name: string, value: string) => {
+      if (name === 'WWW-Authenticate') result.wwwAuthenticate = value;
+      return res;
+    },
+    status: (status: number) => {
+      result.status = status;
+      return res;
+    },
+    json: (body: AdapterBody) => {
+      result.body = body;
+    },
+  } as unknown as NextApiResponse;
+
+  await pagesAuthenticateToken(
+    pagesRequirePermission(...permissions)((req, res) => res.json({ user: req.user })),
+    { core: authCore }
+  )(req, res);
+  return result;
+};
+
+const runAppRouter: RunAdapter = async (headers, permissions) => {
+  const handler = withAuth(async (request, { user }) => NextResponse.json({ user }), {
+    core: authCore,
+    permissions,
+  });
+  return fromFetchResponse(await handler(new Request('http://localhost/api/posts', { headers })));
+};
+
+const runEdge: RunAdapter = async (headers, permissions) => {
+  const request = new Request('http://localhost/api/protected/posts', { headers });
+  const { principal, error } = await authenticateEdgeRequest(request, {
+    core: authCore,
+    permissions,
+  });
+  return fromFetchResponse(
+    error ? authErrorResponse(error) : NextResponse.json({ user: principal.user })
+  );
+};
+
+const user = { id: '1', email: 'user@example.com', role: 'user', tokenVersion: 0 };
+const editor = { id: '2', email: 'editor@example.com', role: 'editor', tokenVersion: 0 };
+
+function bearer(token: string): Headers {
+  return { authorization: `Bearer ${token}` };
+}
+
+describe.each<[string, RunAdapter]>([
+  ['Express', runExpress],
+  ['Next.js Pages', runPages],
+  ['App Router', runAppRouter],
+  ['Edge middleware', runEdge],
+])('%s adapter', (_name, run) => {
+  test('passes the user on for a valid access token', async () => {
+    const response = await run(bearer(generateAccessToken(user)), []);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ id: '1', email: user.email, role: 'user' });
+  });
+
+  test('reads the token from the accessToken cookie', async () => {
+    const response = await run({ cookie: `accessToken=${generateAccessToken(user)}` }, []);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user?.id).toBe('1');
+  });
+
+  test('treats a cookie with malformed %-escapes as no credential', async () => {
+    const response = await run({ cookie: 'accessToken=%E0%A4%A' }, []);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('missing_token');
+  });
+
+  test('returns missing_token without credentials', async () => {
+    const response = await run({}, []);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('missing_token');
+    expect(response.wwwAuthenticate).toBe('Bearer realm="api"');
+  });
+
+  test('returns invalid_token for a refresh token', async () => {
+    const response = await run(bearer(generateRefreshToken(user)), []);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('invalid_token');
+    expect(response.wwwAuthenticate).toContain('error="invalid_token"');
+  });
+
+  test('returns token_expired for an expired token', async () => {
+    const key = getActiveSigningKey();
+    const expired = jwt.sign(
+      {
+        sub: '1',
+        type: 'access',
+        jti: 'expired',
+        email: user.email,
+        role: user.role,
+        exp: Math.floor(Date.now() / 1000) - 3600,
+      },
+      key.privateKey,
+      {
+        algorithm: key.alg,
+        keyid: key.kid,
+        issuer: 'https://auth.example.com',
+        audience: 'https://api.example.com',
+      }
+    );
+
+    const response = await run(bearer(expired), []);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('token_expired');
+  });
+
+  test('returns token_revoked for a revoked token', async () => {
+    const token = generateAccessToken(user);
+    const { jti, exp } = jwt.decode(token) as jwt.JwtPayload;
+    await revokeAccessToken(jti!, exp! * 1000);
+
+    const response = await run(bearer(token), []);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('token_revoked');
+  });
+
+  test('returns insufficient_scope with the missing permissions', async () => {
+    const response = await run(bearer(generateAccessToken(user)), ['posts:write']);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({
+      code: 'insufficient_scope',
+      message: 'Insufficient permissions',
+      missingPermissions: ['posts:write'],
+    });
+    expect(response.wwwAuthenticate).toContain('scope="posts:write"');
+  });
+
+  test('allows a role that grants the permission', async () => {
+    const response = await run(bearer(generateAccessToken(editor)), ['posts:write']);
+
+    expect(response.status).toBe(200);
+    expect(response.body.user?.role).toBe('editor');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Framework-Agnostic Auth Core
+ *
+ * This example shows the part of authentication that is the same in
+ * every framework, written once:
+ * - Issue a token pair for a user
+ * - Verify the credentials found in a request
+ * - Authorize the user against roles and permissions
+ *
+ * The core never sees a framework request or response. Adapters turn
+ * their request into a CredentialSource, call the core, and send the
+ * AuthError it returns in their own way:
+ * - Express:          backend/auth-middleware.ts
+ * - Next.js Pages:    nextjs/auth-middleware.ts
+ * - App Router:       nextjs/route-handler-auth.ts
+ * - Edge middleware:  nextjs/edge-auth.ts
+ *
+ * Token libraries are injected, so the same core runs on Node.js
+ * (jsonwebtoken, see backend/auth-core.ts) and on the Edge
+ * (jose + JWKS, see nextjs/auth-core.ts).
+ */
+
+import {
+  Credential,
+  CredentialExtractor,
+  CredentialSource,
+  defaultExtractors,
+  extractCredential,
+} from './credential-extraction';
+import { AuthError } from './auth-errors';
+import { getMissingPermissions, isGranted, roleIncludes } from './rbac';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: string;
+  tenantId?: string;
+  /** Explicit permissions (API keys, OAuth tokens) - checked instead of the role's */
+  scopes?: string[];
+}
+
+/**
+ * Who a credential belongs to
+ */
+export interface AuthenticatedPrincipal {
+  user: AuthUser;
+  auth?: {
+    jti: string;
+    expiresAt: number; // ms since epoch
+  };
+}
+
+/**
+ * Checks one kind of credential; resolves null to reject it
+ */
+export type CredentialVerifier<C extends Credential> = (
+  credential: C
+) => Promise<AuthenticatedPrincipal | null>;
+
+export type CredentialVerifiers = {
+  [K in Credential['kind']]?: CredentialVerifier<Extract<Credential, { kind: K }>>;
+};
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthCoreOptions<U extends AuthUser, S> {
+  /** Sign a token pair (omit on verify-only runtimes like the Edge) */
+  issueTokens?: (user: U, session?: S) => Promise<IssuedTokens>;
+  /** How to check each kind of credential */
+  verifiers: CredentialVerifiers;
+  /** Translate the token library's errors; return null for unexpected ones */
+  toAuthError: (error: unknown) => AuthError | null;
+}
+
+export interface AuthenticateRequestOptions {
+  /** Where to look for credentials, in precedence order */
+  extractors?: CredentialExtractor[];
+  /** Extra or replacement verifiers for this route (e.g. API keys) */
+  verifiers?: CredentialVerifiers;
+}
+
+export type AuthResult =
+  | { principal: AuthenticatedPrincipal; error?: undefined }
+  | { principal?: undefined; error: AuthError };
+
+/**
+ * What a route requires - every listed permission, and any listed role
+ */
+export interface AuthRequirement {
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface AuthCore<U extends AuthUser = AuthUser, S = unknown> {
+  issueTokens(user: U, session?: S): Promise<IssuedTokens>;
+  authenticate(
+    source: CredentialSource,
+    options?: AuthenticateRequestOptions
+  ): Promise<AuthResult>;
+  authorize(user: AuthUser, requirement: AuthRequirement): AuthError | null;
+}
+
+/**
+ * Check a user against a requirement
+ * Resolves null when allowed, or the insufficient_scope error to send
+ */
+export function authorize(user: AuthUser, requirement: AuthRequirement): AuthError | null {
+  const { roles = [], permissions = [] } = requirement;
+
+  // Roles include the roles they inherit (see rbac.ts). A scoped
+  // principal (API key, OAuth client) never acts with the user's role
+  if (
+    roles.length > 0 &&
+    (user.scopes || !roles.some((role) => roleIncludes(user.role, role)))
+  ) {
+    return new AuthError('insufficient_scope');
+  }
+
+  const missingPermissions = user.scopes
+    ? permissions.filter((permission) => !isGranted(user.scopes!, permission))
+    : getMissingPermissions(user.role, permissions);
+  if (missingPermissions.length > 0) {
+    return new AuthError('insufficient_scope', missingPermissions);
+  }
+  return null;
+}
+
+/**
+ * Build a core from a token library's issue and verify functions
+ */
+export function createAuthCore<U extends AuthUser, S = unknown>(
+  options: AuthCoreOptions<U, S>
+): AuthCore<U, S> {
+  return {
+    async issueTokens(user, session) {
+      if (!options.issueTokens) {
+        throw new Error('This auth core can only verify tokens');
+      }
+      return options.issueTokens(user, session);
+    },
+
+    async authenticate(source, requestOptions = {}) {
+      const verifiers: CredentialVerifiers = {
+        ...options.verifiers,
+        ...requestOptions.verifiers,
+      };
+
+      // 1. Find credentials (first matching extractor wins)
+      const credential = extractCredential(
+        source,
+        requestOptions.extractors ?? defaultExtractors
+      );
+      if (!credential) {
+        return { error: new AuthError('missing_token') };
+      }
+
+      // 2. Verify them with the verifier for their kind
+      const verify = verifiers[credential.kind] as
+        | CredentialVerifier<typeof credential>
+        | undefined;
+      if (!verify) {
+        return { error: new AuthError('unsupported_credentials') };
+      }
+
+      try {
+        const principal = await verify(credential);
+        return principal
+          ? { principal }
+          : { error: new AuthError('invalid_credentials') };
+      } catch (error) {
+        const authError = error instanceof AuthError ? error : options.toAuthError(error);
+        if (!authError) throw error; // Not an auth failure (e.g. store down) - let it 500
+        return { error: authError };
+      }
+    },
+
+    authorize,
+  };
+}
+
+/**
+ * Usage example:
+ *
+ * const core = createAuthCore({
+ *   issueTokens: generateTokens,
+ *   verifiers: { bearer: verifyBearerToken },
+ *   toAuthError: (error) => error instanceof TokenExpiredError
+ *     ? new AuthError('token_expired')
+ *     : null,
+ * });
+ *
+ * // In any adapter
+ * const result = await core.authenticate(fromFetchRequest(request));
+ * const error = result.error ?? core.authorize(result.principal.user, {
+ *   permissions: ['posts:write'],
+ * });
+ */
@@ -0,0 +1,130 @@
+/**
+ * Structured Authentication Errors (RFC 6750)
+ *
+ * This example shows how to answer failed authentication so clients
+ * can react correctly instead of parsing English messages:
+ * - A stable `code` in the JSON body (e.g. `token_expired` -> refresh,
+ *   `invalid_token` -> log in again)
+ * - A `WWW-Authenticate` header in the format RFC 6750 defines
+ *
+ * Framework-agnostic: toAuthErrorResponse() returns status, headers and
+ * body, and each adapter (Express, Next.js, Edge) just sends them.
+ */
+
+export type AuthErrorCode =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'token_expired'
+  | 'token_revoked'
+  | 'invalid_credentials'
+  | 'unsupported_credentials'
+  | 'insufficient_scope';
+
+interface AuthErrorDefinition {
+  status: 401 | 403;
+  message: string;
+  /** Error code for the WWW-Authenticate header (RFC 6750 section 3.1) */
+  rfc6750Error?: 'invalid_token' | 'insufficient_scope';
+}
+
+const AUTH_ERRORS: Record<AuthErrorCode, AuthErrorDefinition> = {
+  // No credentials at all: RFC 6750 says to omit the error code
+  missing_token: { status: 401, message: 'No token provided' },
+  invalid_token: { status: 401, message: 'Invalid token', rfc6750Error: 'invalid_token' },
+  token_expired: { status: 401, message: 'Token expired', rfc6750Error: 'invalid_token' },
+  token_revoked: { status: 401, message: 'Token revoked', rfc6750Error: 'invalid_token' },
+  invalid_credentials: { status: 401, message: 'Invalid credentials', rfc6750Error: 'invalid_token' },
+  unsupported_credentials: { status: 401, message: 'Unsupported credentials' },
+  insufficient_scope: {
+    status: 403,
+    message: 'Insufficient permissions',
+    rfc6750Error: 'insufficient_scope',
+  },
+};
+
+export interface AuthErrorBody {
+  code: AuthErrorCode;
+  message: string;
+  /** Present on insufficient_scope: what the caller would need */
+  missingPermissions?: string[];
+}
+
+export class AuthError extends Error {
+  readonly status: 401 | 403;
+
+  constructor(
+    readonly code: AuthErrorCode,
+    readonly missingPermissions?: string[]
+  ) {
+    super(AUTH_ERRORS[code].message);
+    this.name = 'AuthError';
+    this.status = AUTH_ERRORS[code].status;
+  }
+}
+
+const REALM = 'api';
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * WWW-Authenticate header value, e.g.
+ * Bearer realm="api", error="invalid_token", error_description="Token expired"
+ */
+export function wwwAuthenticate(error: AuthError): string {
+  const { rfc6750Error } = AUTH_ERRORS[error.code];
+  const params = [`realm=${quote(REALM)}`];
+
+  if (rfc6750Error) {
+    params.push(`error=${quote(rfc6750Error)}`);
+    params.push(`error_description=${quote(error.message)}`);
+  }
+  if (error.missingPermissions?.length) {
+    params.push(`scope=${quote(error.missingPermissions.join(' '))}`);
+  }
+  return `Bearer ${params.join(', ')}`;
+}
+
+/**
+ * Everything an adapter needs to send the error
+ */
+export function toAuthErrorResponse(error: AuthError): {
+  status: 401 | 403;
+  headers: Record<string, string>;
+  body: AuthErrorBody;
+} {
+  return {
+    status: error.status,
+    headers: { 'WWW-Authenticate': wwwAuthenticate(error) },
+    body: {
+      code: error.code,
+      message: error.message,
+      ...(error.missingPermissions ? { missingPermissions: error.missingPermissions } : {}),
+    },
+  };
+}
+
+/**
+ * Read the code from an error response body (for clients)
+ */
+export function getAuthErrorCode(body: unknown): AuthErrorCode | null {
+  const code = (body as { code?: unknown } | null)?.code;
+  // hasOwnProperty, not `in`: "toString" and friends are not error codes
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(AUTH_ERRORS, code)
+    ? (code as AuthErrorCode)
+    : null;
+}
+
+/**
+ * Usage example:
+ *
+ * // Server (Express)
+ * const { status, headers, body } = toAuthErrorResponse(new AuthError('token_expired'));
+ * res.status(status).set(headers).json(body);
+ *
+ * // Client
+ * if (getAuthErrorCode(error.response?.data) === 'token_expired') {
+ *   await refreshTokens();
+ * }
+ */
@@ -0,0 +1,116 @@
+/**
+ * Auth Request Schemas
+ *
+ * This example shows one schema per auth endpoint, shared by the Express
+ * routes, the Next.js route handlers and any client that wants the types.
+ * The request types are inferred from the schemas (see validation.ts).
+ *
+ * Passwords are only checked for strength where one is chosen (register,
+ * reset); logins take any non-empty password, so older accounts still work.
+ */
+
+import {
+  email,
+  Infer,
+  jsonObject,
+  optional,
+  password,
+  positiveInteger,
+  string,
+  stringArray,
+} from './validation';
+
+const deviceName = optional(string({ maxLength: 100 }));
+// 6-digit TOTP codes, or XXXX-XXXX recovery codes
+const mfaCode = string({ maxLength: 32 });
+
+export const registerSchema = {
+  email: email(),
+  password: password({ strong: true }),
+};
+
+export const loginSchema = {
+  email: email(),
+  password: password(),
+  deviceName,
+};
+
+export const loginMfaSchema = {
+  mfaToken: string(),
+  code: mfaCode,
+  deviceName,
+};
+
+export const mfaCodeSchema = {
+  code: mfaCode,
+};
+
+export const emailSchema = {
+  email: email(),
+};
+
+export const verifyEmailSchema = {
+  token: string(),
+};
+
+export const resetPasswordSchema = {
+  token: string(),
+  password: password({ strong: true }),
+};
+
+export const magicLinkVerifySchema = {
+  token: string(),
+  deviceName,
+};
+
+// The credential is PublicKeyCredential.toJSON() - passkeys.ts checks its fields
+export const passkeyRegistrationSchema = {
+  credential: jsonObject(),
+  name: optional(string({ maxLength: 100, trim: true })),
+};
+
+export const passkeyLoginSchema = {
+  credential: jsonObject(),
+  deviceName,
+};
+
+export const refreshSchema = {
+  refreshToken: string(),
+};
+
+export const logoutSchema = {
+  refreshToken: optional(string()),
+};
+
+export const createApiKeySchema = {
+  name: string({ maxLength: 100, trim: true }),
+  scopes: stringArray(),
+  expiresInDays: optional(positiveInteger()),
+};
+
+export type RegisterRequest = Infer<typeof registerSchema>;
+export type LoginRequest = Infer<typeof loginSchema>;
+export type LoginMfaRequest = Infer<typeof loginMfaSchema>;
+export type MfaCodeRequest = Infer<typeof mfaCodeSchema>;
+export type EmailRequest = Infer<typeof emailSchema>;
+export type VerifyEmailRequest = Infer<typeof verifyEmailSchema>;
+export type ResetPasswordRequest = Infer<typeof resetPasswordSchema>;
+export type MagicLinkVerifyRequest = Infer<typeof magicLinkVerifySchema>;
+export type PasskeyRegistrationRequest = Infer<typeof passkeyRegistrationSchema>;
+export type PasskeyLoginRequest = Infer<typeof passkeyLoginSchema>;
+export type RefreshRequest = Infer<typeof refreshSchema>;
+export type LogoutRequest = Infer<typeof logoutSchema>;
+export type CreateApiKeyRequest = Infer<typeof createApiKeySchema>;
+
+/**
+ * Usage example:
+ *
+ * // Express
+ * router.post('/login', validateBody(loginSchema), async (req, res) => {
+ *   const { email, password }: LoginRequest = req.body;
+ * });
+ *
+ * // Next.js
+ * const result = validate(loginSchema, await request.json());
+ * if (!result.success) return NextResponse.json(result.error, { status: 400 });
+ */
@@ -0,0 +1,203 @@
+/**
+ * Credential Extraction Strategies
+ *
+ * This example shows how to find credentials in a request with a
+ * configurable pipeline of extractors, instead of hardcoding
+ * `Authorization: Bearer` in every middleware.
+ *
+ * Extractors run in order and the FIRST one that finds something wins,
+ * so the array order is the precedence. The recommended order:
+ * 1. Authorization header (Bearer / Basic) and API key header - sent on purpose
+ * 2. HttpOnly cookie - sent automatically by the browser
+ * 3. WebSocket subprotocol / query param - only on socket upgrades,
+ *    because browsers can't set headers on `new WebSocket()`
+ *
+ * Works with Node.js requests (Express, Next.js Pages API routes, raw
+ * `upgrade` events) and Fetch API requests (App Router, Edge middleware).
+ */
+
+import type { IncomingMessage } from 'http';
+
+export type Credential =
+  | { kind: 'bearer'; token: string; from: 'header' | 'cookie' | 'websocket-protocol' | 'query' }
+  | { kind: 'api-key'; key: string }
+  | { kind: 'basic'; username: string; password: string };
+
+/**
+ * Framework-neutral view of a request
+ */
+export interface CredentialSource {
+  header(name: string): string | undefined;
+  query(name: string): string | undefined;
+}
+
+export type CredentialExtractor = (source: CredentialSource) => Credential | null;
+
+/**
+ * Source for Node.js requests (Express, Next.js Pages API, ws upgrades)
+ */
+export function fromNodeRequest(req: IncomingMessage): CredentialSource {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  return {
+    header: (name) => {
+      const value = req.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value.join(', ') : value;
+    },
+    query: (name) => url.searchParams.get(name) ?? undefined,
+  };
+}
+
+/**
+ * Source for Fetch API requests (App Router handlers, Edge middleware)
+ */
+export function fromFetchRequest(request: Request): CredentialSource {
+  const url = new URL(request.url);
+
+  return {
+    header: (name) => request.headers.get(name) ?? undefined,
+    query: (name) => url.searchParams.get(name) ?? undefined,
+  };
+}
+
+function isWebSocketUpgrade(source: CredentialSource): boolean {
+  return source.header('upgrade')?.toLowerCase() === 'websocket';
+}
+
+/**
+ * Authorization: Bearer <token>
+ */
+export function bearerHeader(): CredentialExtractor {
+  return (source) => {
+    const match = source.header('authorization')?.match(/^Bearer\s+(\S+)$/i);
+    return match ? { kind: 'bearer', token: match[1], from: 'header' } : null;
+  };
+}
+
+/**
+ * HttpOnly cookie holding the access token
+ */
+export function cookie(name = 'accessToken'): CredentialExtractor {
+  return (source) => {
+    const cookies = source.header('cookie')?.split(';') ?? [];
+
+    for (const pair of cookies) {
+      const [key, ...value] = pair.trim().split('=');
+      if (key === name && value.length > 0) {
+        try {
+          return { kind: 'bearer', token: decodeURIComponent(value.join('=')), from: 'cookie' };
+        } catch {
+          // Malformed %-escapes: not a token we issued, so no credential
+          return null;
+        }
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Sec-WebSocket-Protocol: app.v1, bearer.<token>
+ * Client: new WebSocket(url, ['app.v1', `bearer.${token}`])
+ * The server must echo back a real protocol (app.v1), never the token one
+ */
+export function webSocketProtocol(prefix = 'bearer.'): CredentialExtractor {
+  return (source) => {
+    if (!isWebSocketUpgrade(source)) return null;
+
+    const protocol = source
+      .header('sec-websocket-protocol')
+      ?.split(',')
+      .map((value) => value.trim())
+      .find((value) => value.startsWith(prefix));
+    return protocol
+      ? { kind: 'bearer', token: protocol.slice(prefix.length), from: 'websocket-protocol' }
+      : null;
+  };
+}
+
+/**
+ * ?access_token=<token> - only on WebSocket upgrades
+ * (URLs end up in logs and browser history; prefer the subprotocol)
+ */
+export function queryParam(name = 'access_token'): CredentialExtractor {
+  return (source) => {
+    if (!isWebSocketUpgrade(source)) return null;
+
+    const token = source.query(name);
+    return token ? { kind: 'bearer', token, from: 'query' } : null;
+  };
+}
+
+/**
+ * X-API-Key: <key>
+ */
+export function apiKeyHeader(name = 'x-api-key'): CredentialExtractor {
+  return (source) => {
+    const key = source.header(name);
+    return key ? { kind: 'api-key', key } : null;
+  };
+}
+
+/**
+ * Authorization: Basic base64(username:password)
+ */
+export function basicAuth(): CredentialExtractor {
+  return (source) => {
+    const match = source.header('authorization')?.match(/^Basic\s+(\S+)$/i);
+    if (!match) return null;
+
+    try {
+      const decoded = atob(match[1]);
+      const separator = decoded.indexOf(':');
+      if (separator === -1) return null;
+
+      return {
+        kind: 'basic',
+        username: decoded.slice(0, separator),
+        password: decoded.slice(separator + 1),
+      };
+    } catch {
+      return null; // Not valid base64
+    }
+  };
+}
+
+/**
+ * Browser and mobile clients: header first, then cookie
+ */
+export const defaultExtractors: CredentialExtractor[] = [bearerHeader(), cookie()];
+
+/**
+ * Routes that also accept socket connections
+ */
+export const webSocketExtractors: CredentialExtractor[] = [
+  bearerHeader(),
+  cookie(),
+  webSocketProtocol(),
+  queryParam(),
+];
+
+/**
+ * Run extractors in precedence order; the first match wins
+ */
+export function extractCredential(
+  source: CredentialSource,
+  extractors: CredentialExtractor[] = defaultExtractors
+): Credential | null {
+  for (const extract of extractors) {
+    const credential = extract(source);
+    if (credential) return credential;
+  }
+  return null;
+}
+
+/**
+ * Usage example:
+ *
+ * // Service-to-service route: API key or Basic auth only
+ * const credential = extractCredential(fromNodeRequest(req), [apiKeyHeader(), basicAuth()]);
+ *
+ * // Edge middleware
+ * const credential = extractCredential(fromFetchRequest(request));
+ */
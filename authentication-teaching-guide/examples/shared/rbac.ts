@@ -0,0 +1,128 @@
+/**
+ * Role-Based Access Control with Permissions
+ *
+ * This example shows a declarative policy where:
+ * - Roles map to permission strings like `posts:write`
+ * - Roles inherit every permission of the roles they extend
+ * - Routes check permissions, not role names, so adding a role
+ *   never means editing every route
+ *
+ * Wildcards: `posts:*` grants every `posts:` permission, `*` grants all.
+ * Framework-agnostic - used by both the Express and Next.js middleware.
+ */
+
+export interface RoleDefinition {
+  /** Roles whose permissions this role also gets */
+  inherits?: string[];
+  permissions: string[];
+}
+
+export type RbacPolicy = Record<string, RoleDefinition>;
+
+export const rbacPolicy: RbacPolicy = {
+  user: {
+    permissions: ['profile:read', 'profile:write', 'posts:read'],
+  },
+  editor: {
+    inherits: ['user'],
+    permissions: ['posts:write', 'posts:publish'],
+  },
+  support: {
+    inherits: ['user'],
+    permissions: ['users:read'],
+  },
+  admin: {
+    inherits: ['editor', 'support'],
+    permissions: ['users:*', 'audit:read'],
+  },
+};
+
+/**
+ * Every role a role includes: itself plus everything it inherits
+ * (a role missing from the policy still includes itself, with no permissions)
+ */
+export function getRoleClosure(role: string, policy: RbacPolicy = rbacPolicy): Set<string> {
+  const roles = new Set<string>([role]);
+  const pending = [...(policy[role]?.inherits ?? [])];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    // Skipping visited roles also makes inheritance cycles harmless
+    if (roles.has(current) || !policy[current]) continue;
+
+    roles.add(current);
+    pending.push(...(policy[current].inherits ?? []));
+  }
+  return roles;
+}
+
+/**
+ * All permissions of a role, including inherited ones
+ */
+export function getPermissions(role: string, policy: RbacPolicy = rbacPolicy): Set<string> {
+  const permissions = new Set<string>();
+  for (const current of getRoleClosure(role, policy)) {
+    policy[current]?.permissions.forEach((permission) => permissions.add(permission));
+  }
+  return permissions;
+}
+
+function grants(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) return true;
+  return granted.endsWith(':*') && required.startsWith(granted.slice(0, -1));
+}
+
+/**
+ * Check a permission against an explicit list of granted permissions
+ * (e.g. the scopes of an API key), wildcards included
+ */
+export function isGranted(granted: Iterable<string>, permission: string): boolean {
+  for (const current of granted) {
+    if (grants(current, permission)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check a single permission for a role
+ */
+export function hasPermission(
+  role: string,
+  permission: string,
+  policy: RbacPolicy = rbacPolicy
+): boolean {
+  return isGranted(getPermissions(role, policy), permission);
+}
+
+/**
+ * The required permissions a role lacks (empty array = allowed)
+ */
+export function getMissingPermissions(
+  role: string,
+  required: string[],
+  policy: RbacPolicy = rbacPolicy
+): string[] {
+  return required.filter((permission) => !hasPermission(role, permission, policy));
+}
+
+/**
+ * True if `role` is `requiredRole` or inherits from it
+ * (an admin satisfies requireRole('editor'))
+ */
+export function roleIncludes(
+  role: string,
+  requiredRole: string,
+  policy: RbacPolicy = rbacPolicy
+): boolean {
+  return getRoleClosure(role, policy).has(requiredRole);
+}
+
+/**
+ * Usage example:
+ *
+ * hasPermission('editor', 'posts:write');      // true
+ * hasPermission('admin', 'posts:write');       // true (inherited)
+ * hasPermission('admin', 'users:delete');      // true (users:*)
+ * getMissingPermissions('user', ['posts:publish']); // ['posts:publish']
+ * roleIncludes('admin', 'editor');             // true
+ */
@@ -0,0 +1,98 @@
+/**
+ * Tests: Isomorphic JWT Inspection
+ *
+ * Tokens are built by hand so the tests cover the tricky inputs:
+ * base64url characters, missing padding and non-ASCII claims.
+ */
+
+import {
+  AccessTokenClaims,
+  decodeTokenClaims,
+  getTimeToExpiry,
+  inspectToken,
+  isTokenExpired,
+} from './token-inspection';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+function base64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value), 'utf8')
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function makeToken(claims: object): string {
+  return `${base64Url({ alg: 'RS256', kid: 'key-1' })}.${base64Url(claims)}.signature`;
+}
+
+const claims: AccessTokenClaims = {
+  sub: '1',
+  type: 'access',
+  email: 'user@example.com',
+  role: 'user',
+  exp: NOW / 1000 + 60,
+};
+
+describe('inspectToken', () => {
+  test('decodes header and claims', () => {
+    const inspection = inspectToken(makeToken(claims), { now: NOW });
+
+    expect(inspection?.header).toEqual({ alg: 'RS256', kid: 'key-1' });
+    expect(inspection?.claims).toEqual(claims);
+    expect(inspection?.expiresAt).toBe(NOW + 60_000);
+    expect(inspection?.expiresIn).toBe(60_000);
+    expect(inspection?.isExpired).toBe(false);
+  });
+
+  test('decodes non-ASCII claims', () => {
+    const token = makeToken({ ...claims, name: 'Zoë 日本 🚀' });
+
+    expect(inspectToken(token)?.claims).toMatchObject({ name: 'Zoë 日本 🚀' });
+  });
+
+  test('decodes base64url characters and missing padding', () => {
+    const token = makeToken({ ...claims, note: 'a?>?>b' });
+    const payloadSegment = token.split('.')[1];
+
+    // '>' encodes to '+' in base64, which base64url turns into '-'
+    expect(payloadSegment).toContain('-');
+    expect(payloadSegment.length % 4).not.toBe(0);
+    expect(decodeTokenClaims(token)).toMatchObject({ note: 'a?>?>b' });
+  });
+
+  test('returns null for malformed tokens', () => {
+    expect(inspectToken('not-a-token')).toBeNull();
+    expect(inspectToken('a.b.c')).toBeNull();
+    expect(inspectToken(`${base64Url({ alg: 'none' })}.${btoa('"string"')}.x`)).toBeNull();
+  });
+});
+
+describe('isTokenExpired', () => {
+  test('is false before exp', () => {
+    expect(isTokenExpired(makeToken(claims), { now: NOW })).toBe(false);
+  });
+
+  test('is true at and after exp', () => {
+    expect(isTokenExpired(makeToken(claims), { now: NOW + 60_000 })).toBe(true);
+  });
+
+  test('tolerates clock skew with leeway', () => {
+    expect(isTokenExpired(makeToken(claims), { now: NOW + 70_000, leeway: 30 })).toBe(false);
+  });
+
+  test('is true without an exp claim', () => {
+    expect(isTokenExpired(makeToken({ sub: '1' }))).toBe(true);
+  });
+});
+
+describe('getTimeToExpiry', () => {
+  test('is negative once expired', () => {
+    expect(getTimeToExpiry(makeToken(claims), { now: NOW + 90_000 })).toBe(-30_000);
+  });
+
+  test('is null for malformed tokens', () => {
+    expect(getTimeToExpiry('garbage')).toBeNull();
+  });
+});
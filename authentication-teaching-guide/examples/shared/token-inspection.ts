@@ -0,0 +1,172 @@
+/**
+ * Isomorphic JWT Inspection
+ *
+ * This example shows how to read a JWT's header and claims WITHOUT
+ * verifying it - e.g. to decide whether to refresh before a request.
+ * It has no dependencies and runs the same in Node.js, the Next.js
+ * Edge runtime and React Native (no Buffer, atob or TextDecoder needed).
+ *
+ * Never trust these claims for authorization - only a verified token
+ * (token-utils.ts / jwks.ts) proves anything.
+ */
+
+export interface TokenHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+interface BaseClaims {
+  sub: string;
+  jti?: string;
+  iss?: string;
+  aud?: string | string[];
+  iat?: number;
+  exp?: number;
+}
+
+export interface AccessTokenClaims extends BaseClaims {
+  type: 'access';
+  email: string;
+  role: string;
+  tenantId?: string;
+}
+
+export interface RefreshTokenClaims extends BaseClaims {
+  type: 'refresh';
+  jti: string;
+  familyId: string;
+  authTime: number;
+  tokenVersion: number;
+}
+
+export type TokenClaims = AccessTokenClaims | RefreshTokenClaims;
+
+export interface TokenInspection<C extends TokenClaims = TokenClaims> {
+  header: TokenHeader;
+  claims: C;
+  /** ms since epoch, or null if the token has no `exp` */
+  expiresAt: number | null;
+  /** ms until expiry (negative once expired), or null without `exp` */
+  expiresIn: number | null;
+  isExpired: boolean;
+}
+
+export interface InspectOptions {
+  /** Seconds of clock skew to tolerate (see tokenPolicy.clockSkewLeeway) */
+  leeway?: number;
+  /** Current time in ms (for tests) */
+  now?: number;
+}
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Decode a base64url segment to bytes
+ * Accepts missing padding and standard base64 (+/) as well
+ */
+function base64UrlToBytes(segment: string): number[] {
+  const input = segment.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of input) {
+    const value = BASE64URL_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error('Invalid base64url character');
+
+    buffer = ((buffer << 6) | value) & 0xffff; // only the low bits are needed
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decode UTF-8 bytes (so claims like names with accents survive)
+ */
+function utf8Decode(bytes: number[]): string {
+  const percentEncoded = bytes
+    .map((byte) => '%' + byte.toString(16).padStart(2, '0'))
+    .join('');
+  return decodeURIComponent(percentEncoded);
+}
+
+function decodeSegment<T>(segment: string): T {
+  const value = JSON.parse(utf8Decode(base64UrlToBytes(segment)));
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Token segment is not a JSON object');
+  }
+  return value as T;
+}
+
+/**
+ * Inspect a JWT without verifying it
+ * Returns null if the string is not a well-formed JWT
+ */
+export function inspectToken<C extends TokenClaims = TokenClaims>(
+  token: string,
+  options: InspectOptions = {}
+): TokenInspection<C> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const header = decodeSegment<TokenHeader>(parts[0]);
+    const claims = decodeSegment<C>(parts[1]);
+    const now = options.now ?? Date.now();
+    const leewayMs = (options.leeway ?? 0) * 1000;
+
+    const expiresAt = typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+    const expiresIn = expiresAt === null ? null : expiresAt - now;
+
+    return {
+      header,
+      claims,
+      expiresAt,
+      expiresIn,
+      isExpired: expiresIn !== null && expiresIn + leewayMs <= 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the claims of a JWT without verifying it
+ */
+export function decodeTokenClaims<C extends TokenClaims = TokenClaims>(
+  token: string
+): C | null {
+  return inspectToken<C>(token)?.claims ?? null;
+}
+
+/**
+ * True if the token is malformed, has no `exp`, or has expired
+ */
+export function isTokenExpired(token: string, options: InspectOptions = {}): boolean {
+  const inspection = inspectToken(token, options);
+  return !inspection || inspection.expiresAt === null || inspection.isExpired;
+}
+
+/**
+ * ms until the token expires (negative once expired), or null if unknown
+ */
+export function getTimeToExpiry(token: string, options: InspectOptions = {}): number | null {
+  return inspectToken(token, options)?.expiresIn ?? null;
+}
+
+/**
+ * Usage example:
+ *
+ * const inspection = inspectToken<AccessTokenClaims>(accessToken, { leeway: 30 });
+ * if (!inspection || inspection.isExpired) {
+ *   await refreshTokens();
+ * } else if (inspection.expiresIn! < 60_000) {
+ *   // Refresh proactively in the last minute
+ * }
+ */
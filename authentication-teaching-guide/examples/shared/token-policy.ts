@@ -0,0 +1,109 @@
+/**
+ * Central Token Policy
+ *
+ * This example shows how to keep every token lifetime in one typed object.
+ * Token issuers, cookie writers and API responses all read from here,
+ * so changing a lifetime never leaves another file out of sync.
+ *
+ * All durations are in seconds (the unit JWT `exp`/`iat` and cookie
+ * `maxAge` use).
+ */
+
+export interface TokenLifetimes {
+  /** How long an access token is valid */
+  accessTokenTtl: number;
+  /** How long a refresh token stays valid without being used (sliding) */
+  refreshTokenIdleTtl: number;
+  /** Hard limit since login - rotation can never extend a session past this */
+  refreshTokenAbsoluteTtl: number;
+}
+
+export interface TokenPolicy extends TokenLifetimes {
+  /** Self-contained JWTs, or random reference tokens checked against a store */
+  accessTokenFormat: 'jwt' | 'opaque';
+  /** Tolerance for clock differences between issuer and verifiers */
+  clockSkewLeeway: number;
+  /** Stricter (or looser) lifetimes for specific roles */
+  roleOverrides: Record<string, Partial<TokenLifetimes>>;
+  /** How long an email verification link works */
+  emailVerificationTokenTtl: number;
+  /** How long a password reset link works (short - it grants account access) */
+  passwordResetTokenTtl: number;
+  /** How long the user has to enter their MFA code after the password */
+  mfaChallengeTokenTtl: number;
+  /** How long a magic login link works (short - it is a whole login) */
+  magicLinkTokenTtl: number;
+  /** How long a passkey registration or login has to finish */
+  passkeyChallengeTtl: number;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const tokenPolicy: TokenPolicy = {
+  accessTokenFormat: process.env.ACCESS_TOKEN_FORMAT === 'opaque' ? 'opaque' : 'jwt',
+  accessTokenTtl: 15 * MINUTE,
+  refreshTokenIdleTtl: 7 * DAY,
+  refreshTokenAbsoluteTtl: 30 * DAY,
+  clockSkewLeeway: 30,
+  roleOverrides: {
+    // Privileged sessions are shorter and must re-login daily
+    admin: {
+      accessTokenTtl: 5 * MINUTE,
+      refreshTokenIdleTtl: 8 * HOUR,
+      refreshTokenAbsoluteTtl: 1 * DAY,
+    },
+  },
+  emailVerificationTokenTtl: 1 * DAY,
+  passwordResetTokenTtl: 30 * MINUTE,
+  mfaChallengeTokenTtl: 5 * MINUTE,
+  magicLinkTokenTtl: 15 * MINUTE,
+  passkeyChallengeTtl: 5 * MINUTE,
+};
+
+/**
+ * Lifetimes for a role, with its overrides applied
+ */
+export function getTokenLifetimes(role?: string): TokenLifetimes {
+  const overrides = (role && tokenPolicy.roleOverrides[role]) || {};
+
+  return {
+    accessTokenTtl: overrides.accessTokenTtl ?? tokenPolicy.accessTokenTtl,
+    refreshTokenIdleTtl: overrides.refreshTokenIdleTtl ?? tokenPolicy.refreshTokenIdleTtl,
+    refreshTokenAbsoluteTtl:
+      overrides.refreshTokenAbsoluteTtl ?? tokenPolicy.refreshTokenAbsoluteTtl,
+  };
+}
+
+/**
+ * Longest any access token can be accepted for (including leeway)
+ * Used to size denylist entries that must outlive every token
+ */
+export function getMaxAccessTokenTtl(): number {
+  const ttls = Object.values(tokenPolicy.roleOverrides).map(
+    (overrides) => overrides.accessTokenTtl ?? 0
+  );
+  return Math.max(tokenPolicy.accessTokenTtl, ...ttls) + tokenPolicy.clockSkewLeeway;
+}
+
+/**
+ * Seconds a refresh token issued now may live, given when the user logged in
+ * Returns 0 when the absolute session lifetime is used up
+ */
+export function getRefreshTokenTtl(role: string | undefined, authTime: number): number {
+  const { refreshTokenIdleTtl, refreshTokenAbsoluteTtl } = getTokenLifetimes(role);
+  const now = Math.floor(Date.now() / 1000);
+  const remaining = authTime + refreshTokenAbsoluteTtl - now;
+
+  return Math.max(0, Math.min(refreshTokenIdleTtl, remaining));
+}
+
+/**
+ * Usage example:
+ *
+ * const { accessTokenTtl } = getTokenLifetimes(user.role);
+ * res.json({ accessToken, refreshToken, expiresIn: accessTokenTtl });
+ *
+ * cookies().set('accessToken', accessToken, { maxAge: accessTokenTtl });
+ */
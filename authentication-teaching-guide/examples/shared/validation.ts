@@ -0,0 +1,281 @@
+/**
+ * Declarative Request Validation
+ *
+ * This example shows how to validate request bodies against a schema
+ * instead of hand-written `if (!email || !password)` checks:
+ * - Each endpoint declares its fields once (see auth-schemas.ts)
+ * - The TypeScript type of the body is inferred from the schema, so the
+ *   type and the runtime check can't drift apart
+ * - Every problem is reported at once, one message per field, in the
+ *   same `{ code, message, errors[] }` shape as other API errors
+ *
+ * Framework-agnostic: validate() returns the typed data or the error
+ * body, and each adapter (Express, Next.js) just sends it.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Generous upper bounds - bcrypt only reads 72 bytes, and nobody's
+// email is 10 KB long
+const MAX_EMAIL_LENGTH = 254;
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_STRING_LENGTH = 4096;
+
+/**
+ * Same rules as isValidEmail in unit-testing/.../validation-utils.test.ts
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Same rules as isStrongPassword in unit-testing/.../validation-utils.test.ts:
+ * 8+ characters with an uppercase letter, a lowercase letter and a digit
+ */
+export function isStrongPassword(password: string): boolean {
+  if (password.length < MIN_PASSWORD_LENGTH) return false;
+  if (!/[A-Z]/.test(password)) return false;
+  if (!/[a-z]/.test(password)) return false;
+  if (!/[0-9]/.test(password)) return false;
+  return true;
+}
+
+type CheckResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+/**
+ * One field: turns an unknown input value into a T, or says what's wrong
+ */
+export interface Field<T> {
+  check(value: unknown): CheckResult<T>;
+}
+
+export type Schema = Record<string, Field<unknown>>;
+
+/**
+ * The body type a schema accepts, e.g. Infer<typeof loginSchema>
+ */
+export type Infer<S extends Schema> = {
+  [K in keyof S as undefined extends FieldType<S[K]> ? never : K]: FieldType<S[K]>;
+} & {
+  [K in keyof S as undefined extends FieldType<S[K]> ? K : never]?: FieldType<S[K]>;
+};
+
+type FieldType<F> = F extends Field<infer T> ? T : never;
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function fail(message: string): CheckResult<never> {
+  return { ok: false, message };
+}
+
+/**
+ * A required string (`trim` strips surrounding whitespace first)
+ */
+export function string(options: { maxLength?: number; trim?: boolean } = {}): Field<string> {
+  const maxLength = options.maxLength ?? MAX_STRING_LENGTH;
+  return {
+    check(value) {
+      if (options.trim && typeof value === 'string') value = value.trim();
+      if (isMissing(value)) return fail('is required');
+      if (typeof value !== 'string') return fail('must be a string');
+      if (value.length > maxLength) return fail(`must be at most ${maxLength} characters`);
+      return { ok: true, value };
+    },
+  };
+}
+
+/**
+ * A required email address (trimmed)
+ */
+export function email(): Field<string> {
+  const base = string({ maxLength: MAX_EMAIL_LENGTH, trim: true });
+  return {
+    check(value) {
+      const result = base.check(value);
+      if (!result.ok) return result;
+      if (!isValidEmail(result.value)) return fail('must be a valid email address');
+      return result;
+    },
+  };
+}
+
+/**
+ * A required password
+ * `strong` is for choosing one (register, reset); logins accept whatever
+ * was valid when the account was made
+ */
+export function password(options: { strong?: boolean } = {}): Field<string> {
+  const base = string({ maxLength: MAX_PASSWORD_LENGTH });
+  return {
+    check(value) {
+      const result = base.check(value);
+      if (!result.ok || !options.strong) return result;
+      if (!isStrongPassword(result.value)) {
+        return fail(
+          `must be at least ${MIN_PASSWORD_LENGTH} characters with an uppercase letter, ` +
+            'a lowercase letter and a number'
+        );
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * A required, non-empty list of strings
+ */
+export function stringArray(): Field<string[]> {
+  return {
+    check(value) {
+      if (!Array.isArray(value) || value.length === 0) return fail('must be a non-empty list');
+      if (!value.every((item) => typeof item === 'string')) {
+        return fail('must only contain strings');
+      }
+      return { ok: true, value };
+    },
+  };
+}
+
+/**
+ * A required JSON object, passed through as-is - for nested data that the
+ * code using it checks itself (e.g. a WebAuthn credential)
+ */
+export function jsonObject(): Field<Record<string, unknown>> {
+  return {
+    check(value) {
+      if (isMissing(value)) return fail('is required');
+      if (typeof value !== 'object' || Array.isArray(value)) return fail('must be an object');
+      return { ok: true, value: value as Record<string, unknown> };
+    },
+  };
+}
+
+/**
+ * A required whole number above zero (numeric strings too - query
+ * parameters are always strings)
+ */
+export function positiveInteger(options: { max?: number } = {}): Field<number> {
+  return {
+    check(value) {
+      if (isMissing(value)) return fail('is required');
+      const number = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+      if (!Number.isInteger(number) || (number as number) <= 0) {
+        return fail('must be a positive integer');
+      }
+      if (options.max !== undefined && (number as number) > options.max) {
+        return fail(`must be at most ${options.max}`);
+      }
+      return { ok: true, value: number as number };
+    },
+  };
+}
+
+/**
+ * A required point in time: an ISO 8601 date or ms since epoch
+ * Resolves ms since epoch
+ */
+export function timestamp(): Field<number> {
+  return {
+    check(value) {
+      if (isMissing(value)) return fail('is required');
+      const time =
+        typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))
+          ? Number(value)
+          : typeof value === 'string'
+            ? Date.parse(value)
+            : NaN;
+      if (!Number.isFinite(time)) return fail('must be an ISO 8601 date or ms since epoch');
+      return { ok: true, value: time };
+    },
+  };
+}
+
+/**
+ * A required string from a fixed list
+ */
+export function oneOf<T extends string>(values: readonly T[]): Field<T> {
+  return {
+    check(value) {
+      if (isMissing(value)) return fail('is required');
+      if (!values.includes(value as T)) return fail(`must be one of: ${values.join(', ')}`);
+      return { ok: true, value: value as T };
+    },
+  };
+}
+
+/**
+ * Allow the field to be left out
+ */
+export function optional<T>(field: Field<T>): Field<T | undefined> {
+  return {
+    check(value) {
+      return isMissing(value) ? { ok: true, value: undefined } : field.check(value);
+    },
+  };
+}
+
+export interface ValidationErrorBody {
+  code: 'validation_failed';
+  message: string;
+  /** One message per invalid field, e.g. "email must be a valid email address" */
+  errors: string[];
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ValidationErrorBody };
+
+/**
+ * Check a request body against a schema
+ * The data only holds the schema's fields - anything extra is dropped
+ */
+export function validate<S extends Schema>(schema: S, body: unknown): ValidationResult<Infer<S>> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return {
+      success: false,
+      error: {
+        code: 'validation_failed',
+        message: 'Request body must be a JSON object',
+        errors: [],
+      },
+    };
+  }
+
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [name, field] of Object.entries(schema)) {
+    const result = field.check((body as Record<string, unknown>)[name]);
+    if (result.ok) {
+      if (result.value !== undefined) data[name] = result.value;
+    } else {
+      errors.push(`${name} ${result.message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: { code: 'validation_failed', message: 'Invalid request body', errors },
+    };
+  }
+  return { success: true, data: data as Infer<S> };
+}
+
+/**
+ * Usage example:
+ *
+ * const loginSchema = {
+ *   email: email(),
+ *   password: password(),
+ *   deviceName: optional(string({ maxLength: 100 })),
+ * };
+ * type LoginRequest = Infer<typeof loginSchema>;
+ * // { email: string; password: string } & { deviceName?: string }
+ *
+ * const result = validate(loginSchema, { email: 'not-an-email' });
+ * // result.error.errors: ['email must be a valid email address', 'password is required']
+ */
@@ -62,8 +62,18 @@ type InstanceWithTokenize = InstanceBase & {
 };
 
 // Step 3: Error Handler
-export const handleErrorByStatus = (statusCode: number) => {
+// Retry-After is either seconds ("120") or an HTTP date
+const parseRetryAfter = (retryAfter?: string): number | null => {
+  if (!retryAfter) return null;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+export const handleErrorByStatus = (statusCode: number, retryAfter?: string) => {
   let message = '';
+  const retryAfterSeconds = statusCode === 429 ? parseRetryAfter(retryAfter) : null;
   switch (statusCode) {
     case -1:
       message = 'Connection Timeout';
@@ -83,6 +93,16 @@ export const handleErrorByStatus = (statusCode: number) => {
     case 404:
       message = 'Resource Not Found.';
       break;
+    case 429:
+      // Rate limited or account locked - tell the user how long to wait
+      if (retryAfterSeconds === null) {
+        message = 'Too many attempts. Please try again later.';
+      } else if (retryAfterSeconds < 60) {
+        message = `Too many attempts. Please try again in ${retryAfterSeconds} seconds.`;
+      } else {
+        message = `Too many attempts. Please try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`;
+      }
+      break;
     case 500:
       message = 'Internal Server Error.';
       break;
@@ -90,7 +110,7 @@ export const handleErrorByStatus = (statusCode: number) => {
       message = 'Something went wrong.';
       break;
   }
-  return { message, statusCode };
+  return { message, statusCode, ...(retryAfterSeconds !== null ? { retryAfterSeconds } : {}) };
 };
 
 // Step 4: Factory Function
@@ -107,13 +127,13 @@ function createAxiosInstance<T extends boolean>(
   // Request interceptor
   instance.interceptors.request.use(
     (config) => config,
-    (error) => Promise.reject(handleErrorByStatus(error?.response?.status || -1)),
+    (error) => Promise.reject(handleErrorByStatus(error?.response?.status || -1, error?.response?.headers?.['retry-after'])),
   );
 
   // Response interceptor
   const defaultErrorHandler = instance.interceptors.response.use(
     (config) => config,
-    (error) => Promise.reject(handleErrorByStatus(error?.response?.status || -1)),
+    (error) => Promise.reject(handleErrorByStatus(error?.response?.status || -1, error?.response?.headers?.['retry-after'])),
   );
 
   // Wrap methods
@@ -15,11 +15,12 @@ import { sessionStore } from '@/hooks/use-session';
  */
 export type ApiErrorResponse = {
   data: {
-    code: string;
+    code: string; // e.g. 'token_expired', 'invalid_token', 'insufficient_scope'
     message: string;
     path: string;
     timestamp: string;
     errors?: string[];
+    missingPermissions?: string[];
   };
 };
 
@@ -42,7 +43,7 @@ export const customErrorHandler = async (
 
   switch (statusCode) {
     case 401:
-      // Unauthorized - token expired or invalid
+      // Unauthorized - `code` tells why: token_expired, invalid_token, token_revoked
       if (isAuthInstance) {
         // For authenticated requests, clear session and redirect to login
         await sessionStore.clearSession();
@@ -50,15 +51,20 @@ export const customErrorHandler = async (
       }
       result = {
         ...(apiErrorData ? { data: apiErrorData } : {}),
-        message: 'Unauthorized. Please login again.',
+        message: apiErrorData?.code === 'token_expired'
+          ? 'Your session expired. Please login again.'
+          : 'Unauthorized. Please login again.',
       };
       break;
 
     case 403:
       // Forbidden - user doesn't have permission
+      // insufficient_scope responses list what was missing
       result = {
         ...(apiErrorData ? { data: apiErrorData } : {}),
-        message: 'Access denied. You don\'t have permission.',
+        message: apiErrorData?.code === 'insufficient_scope' && apiErrorData.missingPermissions
+          ? `Access denied. Missing permission: ${apiErrorData.missingPermissions.join(', ')}`
+          : 'Access denied. You don\'t have permission.',
       };
       break;
 
@@ -130,10 +136,11 @@ export const advancedErrorHandler = async (
   error: any,
   isAuthInstance = false
 ) => {
-  const statusCode = error?.response?.status;
+  const errorCode = error?.response?.data?.code;
 
-  // Handle 401 with token refresh
-  if (statusCode === 401 && isAuthInstance) {
+  // Handle expired tokens with a refresh
+  // (invalid or revoked tokens can't be fixed by refreshing)
+  if (errorCode === 'token_expired' && isAuthInstance) {
     try {
       // Try to refresh token
       const refreshToken = await sessionStore.getRefreshToken();